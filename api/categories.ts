@@ -1,7 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchCategories, type ApiResponse } from '../lib/supabase.js';
+import { fetchCategoryRegistry, type Category } from '../lib/categories.js';
+import type { ApiResponse } from '../lib/episodes.js';
+import { sendCacheableJson } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -21,16 +25,18 @@ export default async function handler(
   }
 
   try {
-    const categories = await fetchCategories();
-    res.status(200).json({
+    const registry = await fetchCategoryRegistry();
+    sendCacheableJson(req, res, {
       success: true,
-      data: categories,
-    } satisfies ApiResponse<string[]>);
+      data: registry.all,
+    } satisfies ApiResponse<Category[]>);
   } catch (error) {
-    console.error('Error in /api/categories:', error);
+    logger.error('Error in /api/categories', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to fetch categories',
     } satisfies ApiResponse<never>);
   }
 }
+
+export default instrumentHandler('/api/categories', handler);
@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getConfig } from '../lib/config.js';
+import { getDataSource } from '../lib/data-source.js';
+import { buildDataQualityReport, type DataQualityReport } from '../lib/data-quality.js';
+import type { ApiResponse } from '../lib/episodes.js';
+import { authorizeBearer } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+
+// Editor report of malformed rows; it reads the whole episodes table, so it
+// needs DATA_QUALITY_TOKEN as a bearer token (and is off in production without one)
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  if (!authorizeBearer(req, res, getConfig().dataQualityToken)) {
+    return;
+  }
+
+  // ?severity=error limits the report to rejected rows
+  const severity = req.query.severity === 'error' ? 'error' : 'warning';
+
+  try {
+    const rows = await getDataSource().listEpisodeRows();
+    const report = buildDataQualityReport(rows, severity);
+
+    // Editors fix rows and reload, so never serve a stale report
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({
+      success: true,
+      data: report,
+    } satisfies ApiResponse<DataQualityReport>);
+  } catch (error) {
+    logger.error('Error in /api/data-quality', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build data quality report',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/data-quality', handler);
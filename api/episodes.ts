@@ -1,7 +1,19 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEpisodes, type ApiResponse, type Episode } from '../lib/supabase.js';
+import { queryEpisodes, type ApiResponse, type EpisodeSummary } from '../lib/episodes.js';
+import {
+  encodeCursor,
+  InvalidQueryError,
+  parseEpisodeQuery,
+  toEpisodeSummary,
+  type EpisodeQuery,
+} from '../lib/episode-query.js';
+import { fetchCategoryRegistry } from '../lib/categories.js';
+import { resolveHost } from '../lib/hosts.js';
+import { sendCacheableJson } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -20,17 +32,64 @@ export default async function handler(
     return;
   }
 
+  let query: EpisodeQuery;
   try {
-    const episodes = await fetchEpisodes();
-    res.status(200).json({
+    query = parseEpisodeQuery(req.query);
+  } catch (error) {
+    if (error instanceof InvalidQueryError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+      } satisfies ApiResponse<never>);
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    // Accept category slugs and aliases as well as names
+    if (query.category) {
+      const category = (await fetchCategoryRegistry()).resolve(query.category);
+      if (!category) {
+        res.status(400).json({
+          success: false,
+          error: 'Unknown category',
+        } satisfies ApiResponse<never>);
+        return;
+      }
+      // The special filters (new, popular) span every category
+      query = { ...query, category: category.kind === 'category' ? category.name : null };
+    }
+    // Hosts too, e.g. ?host=maya-lindqvist
+    if (query.host) {
+      const host = await resolveHost(query.host);
+      query = { ...query, host: host ? host.name : query.host };
+    }
+
+    const page = await queryEpisodes(query);
+    const last = page.episodes[page.episodes.length - 1];
+
+    sendCacheableJson(req, res, {
       success: true,
-      data: episodes,
-    } satisfies ApiResponse<Episode[]>);
+      data: page.episodes.map(toEpisodeSummary),
+      pagination: {
+        limit: query.limit,
+        total: page.total,
+        hasMore: page.hasMore,
+        nextCursor: !page.hasMore || !last
+          ? null
+          : query.sort === 'popular'
+          ? encodeCursor(query.sort, query.offset + page.episodes.length)
+          : encodeCursor(query.sort, last),
+      },
+    } satisfies ApiResponse<EpisodeSummary[]>);
   } catch (error) {
-    console.error('Error in /api/episodes:', error);
+    logger.error('Error in /api/episodes', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to fetch episodes',
     } satisfies ApiResponse<never>);
   }
 }
+
+export default instrumentHandler('/api/episodes', handler);
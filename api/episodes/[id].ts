@@ -1,7 +1,10 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEpisodeById, type ApiResponse, type Episode } from '../../lib/supabase.js';
+import { fetchEpisodeById, type ApiResponse, type Episode } from '../../lib/episodes.js';
+import { sendCacheableJson } from '../../lib/http.js';
+import { instrumentHandler } from '../../lib/instrument.js';
+import { logger } from '../../lib/log.js';
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -41,15 +44,17 @@ export default async function handler(
       return;
     }
 
-    res.status(200).json({
+    sendCacheableJson(req, res, {
       success: true,
       data: episode,
     } satisfies ApiResponse<Episode>);
   } catch (error) {
-    console.error('Error in /api/episodes/[id]:', error);
+    logger.error('Error in /api/episodes/[id]', { error });
     res.status(500).json({
       success: false,
       error: 'Failed to fetch episode',
     } satisfies ApiResponse<never>);
   }
 }
+
+export default instrumentHandler('/api/episodes/[id]', handler);
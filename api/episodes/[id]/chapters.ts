@@ -0,0 +1,63 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { buildChaptersJson, CHAPTERS_CONTENT_TYPE } from '../../../lib/chapters.js';
+import { getBaseUrl } from '../../../lib/config.js';
+import { fetchEpisodeById, type ApiResponse } from '../../../lib/episodes.js';
+import { CATALOG_CACHE_CONTROL, sendCacheable } from '../../../lib/http.js';
+import { instrumentHandler } from '../../../lib/instrument.js';
+import { logger } from '../../../lib/log.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Episode ID is required',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const episode = await fetchEpisodeById(id);
+
+    if (!episode || !episode.chapters?.length) {
+      res.status(404).json({
+        success: false,
+        error: episode ? 'Episode has no chapters' : 'Episode not found',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    sendCacheable(req, res, {
+      body: JSON.stringify(buildChaptersJson(episode, getBaseUrl(req))),
+      contentType: CHAPTERS_CONTENT_TYPE,
+      cacheControl: CATALOG_CACHE_CONTROL,
+    });
+  } catch (error) {
+    logger.error('Error in /api/episodes/[id]/chapters', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch chapters',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/episodes/[id]/chapters', handler);
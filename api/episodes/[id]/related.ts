@@ -0,0 +1,80 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  fetchEpisodeById,
+  fetchRelatedEpisodes,
+  MAX_RELATED_EPISODES,
+  type ApiResponse,
+  type RelatedEpisode,
+} from '../../../lib/episodes.js';
+import { sendCacheableJson } from '../../../lib/http.js';
+import { instrumentHandler } from '../../../lib/instrument.js';
+import { logger } from '../../../lib/log.js';
+
+const DEFAULT_LIMIT = 6;
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { id, limit: rawLimit } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Episode ID is required',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    let limit = DEFAULT_LIMIT;
+    if (rawLimit !== undefined) {
+      limit = Number(rawLimit);
+      if (typeof rawLimit !== 'string' || !Number.isInteger(limit) || limit < 1 || limit > MAX_RELATED_EPISODES) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_RELATED_EPISODES}`,
+        } satisfies ApiResponse<never>);
+        return;
+      }
+    }
+
+    const episode = await fetchEpisodeById(id);
+
+    if (!episode) {
+      res.status(404).json({
+        success: false,
+        error: 'Episode not found',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    sendCacheableJson(req, res, {
+      success: true,
+      data: await fetchRelatedEpisodes(episode, limit),
+    } satisfies ApiResponse<RelatedEpisode[]>);
+  } catch (error) {
+    logger.error('Error in /api/episodes/[id]/related', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch related episodes',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/episodes/[id]/related', handler);
@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchEpisodeById, type ApiResponse } from '../../../lib/episodes.js';
+import { CATALOG_CACHE_CONTROL, sendCacheable } from '../../../lib/http.js';
+import {
+  formatTranscript,
+  parseTranscript,
+  TRANSCRIPT_CONTENT_TYPES,
+  TRANSCRIPT_FORMATS,
+  type TranscriptFormat,
+} from '../../../lib/transcript.js';
+import { instrumentHandler } from '../../../lib/instrument.js';
+import { logger } from '../../../lib/log.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  // Cross-origin players read the timing marker set below
+  res.setHeader('Access-Control-Expose-Headers', 'X-Transcript-Timing');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { id, format: rawFormat = 'txt' } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Episode ID is required',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const format = rawFormat as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      res.status(400).json({
+        success: false,
+        error: `format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}`,
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const episode = await fetchEpisodeById(id);
+
+    if (!episode || !episode.transcript?.trim()) {
+      res.status(404).json({
+        success: false,
+        error: episode ? 'Episode has no transcript' : 'Episode not found',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const transcript = parseTranscript(episode.transcript, episode.duration);
+
+    // Lets clients tell real cue times from estimated ones
+    res.setHeader('X-Transcript-Timing', transcript.timed ? 'timed' : 'estimated');
+    sendCacheable(req, res, {
+      body: formatTranscript(transcript, format),
+      contentType: TRANSCRIPT_CONTENT_TYPES[format],
+      cacheControl: CATALOG_CACHE_CONTROL,
+    });
+  } catch (error) {
+    logger.error('Error in /api/episodes/[id]/transcript', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transcript',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/episodes/[id]/transcript', handler);
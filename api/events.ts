@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash } from 'crypto';
+import {
+  fetchEpisodeById,
+  recordEngagementEvent,
+  type ApiResponse,
+  type EngagementType,
+} from '../lib/episodes.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+import { ENGAGEMENT_TYPES } from '../lib/popularity.js';
+
+// A listener counts once per episode and event type within this window
+const DEDUPE_WINDOW_MS = 60 * 60_000;
+
+// Vercel puts the client's address first in X-Forwarded-For
+function clientAddress(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+}
+
+// Hashed so the table never holds addresses
+function dedupeKey(req: VercelRequest, episodeId: string, type: EngagementType, now: number): string {
+  const window = Math.floor(now / DEDUPE_WINDOW_MS);
+  return createHash('sha256')
+    .update(`${clientAddress(req)}|${episodeId}|${type}|${window}`)
+    .digest('base64url');
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  // sendBeacon posts text/plain unless given a typed Blob, so accept both
+  let body = req.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      body = null;
+    }
+  }
+
+  const episodeId = body?.episodeId;
+  const type = body?.type;
+
+  if (!episodeId || typeof episodeId !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'Episode ID is required',
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  if (!ENGAGEMENT_TYPES.includes(type)) {
+    res.status(400).json({
+      success: false,
+      error: `Event type must be one of ${ENGAGEMENT_TYPES.join(', ')}`,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  try {
+    const episode = await fetchEpisodeById(episodeId);
+
+    if (!episode) {
+      res.status(404).json({
+        success: false,
+        error: 'Episode not found',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    // Repeats from the same listener are dropped by the data source, so the
+    // ranking can't be moved by replaying one request
+    const now = Date.now();
+    await recordEngagementEvent({
+      episodeId: episode.id,
+      type: type as EngagementType,
+      createdAt: new Date(now).toISOString(),
+      dedupeKey: dedupeKey(req, episode.id, type as EngagementType, now),
+    });
+
+    res.status(202).json({ success: true } satisfies ApiResponse<never>);
+  } catch (error) {
+    logger.error('Error in /api/events', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record event',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/events', handler);
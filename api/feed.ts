@@ -0,0 +1,75 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchCategoryRegistry } from '../lib/categories.js';
+import { getBaseUrl, getConfig } from '../lib/config.js';
+import { fetchEpisodes } from '../lib/episodes.js';
+import { newestCreatedAt, sendCacheable } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+import { buildPodcastFeed, podcastFeedPath } from '../lib/podcast-feed.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).setHeader('Content-Type', 'text/xml');
+    res.end('<?xml version="1.0" encoding="UTF-8"?><error>Method not allowed</error>');
+    return;
+  }
+
+  try {
+    // Set by the /:category/feed.xml rewrite
+    const { category: categoryParam } = req.query;
+
+    let category;
+    if (typeof categoryParam === 'string' && categoryParam) {
+      const registry = await fetchCategoryRegistry();
+      category = registry.resolve(categoryParam);
+
+      // Special filters are views of the main feed, not separate shows
+      if (!category || category.kind !== 'category') {
+        res.status(404).setHeader('Content-Type', 'text/xml');
+        res.end('<?xml version="1.0" encoding="UTF-8"?><error>Feed not found</error>');
+        return;
+      }
+
+      if (categoryParam !== category.slug) {
+        res.redirect(301, podcastFeedPath(category));
+        return;
+      }
+    }
+
+    const allEpisodes = await fetchEpisodes();
+    const episodes = category ? allEpisodes.filter((episode) => episode.category === category.name) : allEpisodes;
+    const feed = buildPodcastFeed({
+      baseUrl: getBaseUrl(req),
+      episodes,
+      category,
+      ownerEmail: getConfig().podcastOwnerEmail ?? undefined,
+    });
+
+    // Podcast apps poll often; an hour matches the sitemap
+    sendCacheable(req, res, {
+      body: feed,
+      contentType: 'application/rss+xml; charset=utf-8',
+      cacheControl: 'public, max-age=3600',
+      lastModified: newestCreatedAt(episodes),
+    });
+  } catch (error) {
+    logger.error('Error in /api/feed', { error });
+    res.status(500).setHeader('Content-Type', 'text/xml');
+    res.end('<?xml version="1.0" encoding="UTF-8"?><error>Failed to generate feed</error>');
+  }
+}
+
+export default instrumentHandler('/api/feed', handler);
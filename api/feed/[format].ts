@@ -0,0 +1,109 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchCategoryRegistry } from '../../lib/categories.js';
+import { getBaseUrl } from '../../lib/config.js';
+import { parseEpisodeQuery, toEpisodeSummary } from '../../lib/episode-query.js';
+import { queryEpisodes } from '../../lib/episodes.js';
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  FEED_FORMATS,
+  FEED_SIZE,
+  feedPath,
+  type FeedFormat,
+  type FeedScope,
+} from '../../lib/feeds.js';
+import { newestCreatedAt, sendCacheable } from '../../lib/http.js';
+import { instrumentHandler } from '../../lib/instrument.js';
+import { logger } from '../../lib/log.js';
+import { resolveTag } from '../../lib/tags.js';
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  json: 'application/feed+json; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+// Resolves ?category= or ?tag= (set by the feed rewrites) to a scope, or null if unknown
+async function resolveScope(req: VercelRequest): Promise<{ scope: FeedScope; param: string | null } | null> {
+  const { category, tag } = req.query;
+
+  if (typeof category === 'string' && category) {
+    const match = (await fetchCategoryRegistry()).resolve(category);
+    return match ? { scope: { kind: 'category', category: match }, param: category } : null;
+  }
+
+  if (typeof tag === 'string' && tag) {
+    const match = await resolveTag(tag);
+    return match ? { scope: { kind: 'tag', tag: match }, param: tag } : null;
+  }
+
+  return { scope: { kind: 'all' }, param: null };
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const format = req.query.format as FeedFormat;
+  if (!FEED_FORMATS.includes(format)) {
+    res.status(404).json({ error: 'Feed not found' });
+    return;
+  }
+
+  try {
+    const resolved = await resolveScope(req);
+    if (!resolved) {
+      res.status(404).json({ error: 'Feed not found' });
+      return;
+    }
+    const { scope, param } = resolved;
+
+    // Names and aliases (e.g. /Health/feed.json) move to the canonical slug
+    const slug = scope.kind === 'category' ? scope.category.slug : scope.kind === 'tag' ? scope.tag.slug : null;
+    if (param !== slug) {
+      res.redirect(301, feedPath(format, scope));
+      return;
+    }
+
+    // Same selection as /api/episodes; /popular ranks, everything else is newest first
+    const query = parseEpisodeQuery({
+      limit: String(FEED_SIZE),
+      sort: scope.kind === 'category' && scope.category.slug === 'popular' ? 'popular' : 'newest',
+    });
+    if (scope.kind === 'category' && scope.category.kind === 'category') {
+      query.category = scope.category.name;
+    }
+    if (scope.kind === 'tag') {
+      query.tag = scope.tag.name;
+    }
+
+    const page = await queryEpisodes(query);
+    const options = { baseUrl: getBaseUrl(req), scope, episodes: page.episodes.map(toEpisodeSummary) };
+
+    sendCacheable(req, res, {
+      body: format === 'json' ? JSON.stringify(buildJsonFeed(options)) : buildAtomFeed(options),
+      contentType: CONTENT_TYPES[format],
+      cacheControl: 'public, max-age=3600',
+      lastModified: newestCreatedAt(page.episodes),
+    });
+  } catch (error) {
+    logger.error('Error in /api/feed/[format]', { error });
+    res.status(500).json({ error: 'Failed to generate feed' });
+  }
+}
+
+export default instrumentHandler('/api/feed/[format]', handler);
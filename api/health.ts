@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { instrumentHandler } from '../lib/instrument.js';
 
-export default function handler(
+function handler(
   _req: VercelRequest,
   res: VercelResponse
 ): void {
@@ -9,3 +10,5 @@ export default function handler(
     timestamp: new Date().toISOString(),
   });
 }
+
+export default instrumentHandler('/api/health', handler);
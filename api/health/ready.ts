@@ -0,0 +1,16 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { runReadinessChecks } from '../../lib/health.js';
+import { instrumentHandler } from '../../lib/instrument.js';
+
+// Deep checks for uptime monitoring; /api/health only says the function runs
+async function handler(
+  _req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  const report = await runReadinessChecks();
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(report.status === 'ok' ? 200 : 503).json(report);
+}
+
+export default instrumentHandler('/api/health/ready', handler);
@@ -0,0 +1,27 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getConfig } from '../lib/config.js';
+import { authorizeBearer } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { renderMetrics } from '../lib/metrics.js';
+
+// Prometheus scrape target for this instance's metrics (see lib/metrics.ts);
+// METRICS_TOKEN must be sent as a bearer token, and without one production has no metrics
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  if (!authorizeBearer(req, res, getConfig().metricsToken)) {
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).end(renderMetrics());
+}
+
+export default instrumentHandler('/api/metrics', handler);
@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getBaseUrl } from '../lib/config.js';
+import { buildOEmbed, episodeIdFromUrl, type OEmbedLimits } from '../lib/embed.js';
+import { fetchEpisodeById, type ApiResponse } from '../lib/episodes.js';
+import { sendCacheableJson } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const { url, format, maxwidth, maxheight } = req.query;
+
+    if (!url || typeof url !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'url is required',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    // The oEmbed spec asks for 501 when a format is not implemented
+    if (format !== undefined && format !== 'json') {
+      res.status(501).json({
+        success: false,
+        error: 'Only format=json is supported',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const limits: OEmbedLimits = { maxWidth: null, maxHeight: null };
+    for (const [name, value, key] of [['maxwidth', maxwidth, 'maxWidth'], ['maxheight', maxheight, 'maxHeight']] as const) {
+      if (value === undefined) {
+        continue;
+      }
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < 1) {
+        res.status(400).json({
+          success: false,
+          error: `${name} must be a positive integer`,
+        } satisfies ApiResponse<never>);
+        return;
+      }
+      limits[key] = limit;
+    }
+
+    const baseUrl = getBaseUrl(req);
+    const episodeId = episodeIdFromUrl(url, baseUrl);
+    const episode = episodeId ? await fetchEpisodeById(episodeId) : null;
+
+    if (!episode) {
+      res.status(404).json({
+        success: false,
+        error: episodeId ? 'Episode not found' : 'url is not an Angle episode',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const oembed = buildOEmbed(episode, baseUrl, limits);
+    // The response may not exceed the consumer's limits, so say it can't be done
+    if (!oembed) {
+      res.status(501).json({
+        success: false,
+        error: 'The player does not fit within maxwidth and maxheight',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    sendCacheableJson(req, res, oembed);
+  } catch (error) {
+    logger.error('Error in /api/oembed', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build oEmbed response',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/oembed', handler);
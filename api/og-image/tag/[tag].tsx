@@ -0,0 +1,51 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { instrumentHandler } from '../../../lib/instrument.js';
+import { logger } from '../../../lib/log.js';
+import { tagOgCard } from '../../../lib/og-cards.js';
+import { ogOptionsError, parseOgOptions, sendOgImage } from '../../../lib/og-design.js';
+import { resolveTag } from '../../../lib/tags.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  try {
+    const url = new URL(req.url || '', `http://${req.headers.host || 'localhost'}`);
+    // Extract tag from path like /api/og-image/tag/climate
+    const pathParts = url.pathname.split('/').filter(Boolean);
+    const tagIndex = pathParts.indexOf('tag');
+    const tagParam = tagIndex !== -1 && tagIndex < pathParts.length - 1
+      ? decodeURIComponent(pathParts[tagIndex + 1])
+      : null;
+
+    if (!tagParam) {
+      res.status(400).json({ error: 'Tag is required' });
+      return;
+    }
+
+    const options = parseOgOptions(url);
+    if (!options) {
+      res.status(400).json({ error: ogOptionsError() });
+      return;
+    }
+
+    const tag = await resolveTag(tagParam);
+
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    // Cover of the most recent episode with this tag
+    await sendOgImage(req, res, await tagOgCard(tag), options);
+  } catch (error) {
+    logger.error('Error generating tag OG image', { error });
+    res.status(500).json({ error: 'Failed to generate OG image' });
+  }
+}
+
+export default instrumentHandler('/api/og-image/tag/[tag]', handler);
@@ -1,20 +1,23 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-import { fetchCategories } from '../../lib/supabase.js';
-
-const SPECIAL_FILTERS = ['new', 'popular'];
+import { fetchCategoryRegistry } from '../../lib/categories.js';
+import { getBaseUrl, isDevelopment } from '../../lib/config.js';
+import { fetchListingPage } from '../../lib/episodes.js';
+import { instrumentHandler } from '../../lib/instrument.js';
+import { logger } from '../../lib/log.js';
+import { categoryOgCard, ogImageUrl } from '../../lib/og-cards.js';
+import { listingContent } from '../../lib/page-content.js';
+import { renderPage, type FeedLink } from '../../lib/page-template.js';
+import { feedPath } from '../../lib/feeds.js';
+import { podcastFeedPath } from '../../lib/podcast-feed.js';
+import { collectionJsonLd } from '../../lib/structured-data.js';
 
 // Paths that should not be treated as categories
-const EXCLUDED_PATHS = ['api', 'episode', 'images', 'fonts', 'robots.txt', 'favicon.ico', 'sitemap.xml'];
-
-// Get __dirname equivalent for ESM
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+const EXCLUDED_PATHS = [
+  'api', 'episode', 'embed', 'tag', 'host', 'sitemaps', 'images', 'fonts', 'robots.txt', 'favicon.ico', 'sitemap.xml', 'feed.xml',
+  'feed.json', 'atom.xml',
+];
 
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -48,154 +51,69 @@ export default async function handler(
       return;
     }
 
-    // Validate category exists - handle case-insensitive matching
-    const categories = await fetchCategories();
-    
-    // Helper function to convert category display name to URL slug
-    const categoryToSlug = (cat: string): string => {
-      return cat.toLowerCase().replace(/\s+/g, '-').replace(/[&]/g, 'and').replace(/[^a-z0-9-]/g, '');
-    };
-    
-    // Helper function to convert URL slug back to display name
-    const slugToCategory = (slug: string): string | null => {
-      // Try exact match first (case-insensitive)
-      const exactMatch = categories.find(c => c.toLowerCase() === slug.toLowerCase());
-      if (exactMatch) return exactMatch;
-      
-      // Try slug match
-      const slugMatch = categories.find(c => categoryToSlug(c) === slug.toLowerCase());
-      if (slugMatch) return slugMatch;
-      
-      // Try partial match (handle "business-economy" -> "Business & Economy")
-      const normalizedSlug = slug.toLowerCase().replace(/-/g, '');
-      const partialMatch = categories.find(c => 
-        c.toLowerCase().replace(/\s+/g, '').replace(/[&]/g, '').replace(/[^a-z0-9]/g, '') === normalizedSlug
-      );
-      if (partialMatch) return partialMatch;
-      
-      return null;
-    };
-    
-    const categorySlug = category.toLowerCase();
-    const matchingCategory = slugToCategory(categorySlug);
-    
-    const isValidCategory = 
-      matchingCategory !== null || 
-      SPECIAL_FILTERS.includes(categorySlug);
+    // Resolve slug, name or alias through the category registry
+    const registry = await fetchCategoryRegistry();
+    const matchingCategory = registry.resolve(category);
 
-    if (!isValidCategory) {
+    if (!matchingCategory) {
       // Invalid category, redirect to home (let client-side handle it)
       res.redirect(302, '/');
       return;
     }
-    
-    // Use the matched category name (with proper casing) for display
-    const displayCategory = matchingCategory || category;
 
-    // Read index.html - try multiple possible paths
-    const possiblePaths = [
-      join(process.cwd(), 'public', 'index.html'),
-      join(__dirname, '..', '..', 'public', 'index.html'),
-      join(process.cwd(), 'index.html'),
-    ];
-
-    let html: string | null = null;
-    let lastError: Error | null = null;
-    
-    for (const indexPath of possiblePaths) {
-      try {
-        html = await readFile(indexPath, 'utf-8');
-        break;
-      } catch (error) {
-        lastError = error as Error;
-        // Try next path
-      }
-    }
-
-    if (!html) {
-      console.error('Could not find index.html. Tried paths:', possiblePaths);
-      console.error('Last error:', lastError);
-      throw new Error('Could not find index.html');
+    // Names and aliases (e.g. /Health, /tech) move to the canonical slug
+    if (category !== matchingCategory.slug) {
+      res.redirect(301, `/${matchingCategory.slug}`);
+      return;
     }
+    const categorySlug = matchingCategory.slug;
 
-    // Format category name for display
-    const categoryLabel = displayCategory === 'new' ? 'New' : 
-                         displayCategory === 'popular' ? 'Popular' : 
-                         displayCategory;
-
-    // Build URLs - handle both localhost and production
-    const protocol = req.headers['x-forwarded-proto'] || 
-                     (req.headers['x-forwarded-ssl'] === 'on' ? 'https' : 'http');
-    const host = req.headers.host || 'newsangle.co';
-    const baseUrl = `${protocol}://${host}`;
-    // Use lowercase category for URL (e.g., /health not /Health) - reuse categorySlug from above
+    const baseUrl = getBaseUrl(req);
     const categoryUrl = `${baseUrl}/${categorySlug}`;
-    const ogImageUrl = `${baseUrl}/api/og-image/category/${categorySlug}`;
-
-    // Build meta content
-    const title = `${categoryLabel} Stories | Angle`;
-    const description = category === 'new' 
-      ? 'Latest stories worth listening.' 
-      : category === 'popular' 
-      ? 'Popular stories worth listening.' 
-      : `${categoryLabel} stories worth listening.`;
+    const description = matchingCategory.description;
+
+    // The category's own feeds; special filters have no podcast feed of their own
+    const feedTitle = `Angle: ${matchingCategory.name}`;
+    const scope = { kind: 'category', category: matchingCategory } as const;
+    const feeds: FeedLink[] = [
+      { type: 'application/feed+json', title: feedTitle, href: feedPath('json', scope) },
+      { type: 'application/atom+xml', title: feedTitle, href: feedPath('atom', scope) },
+    ];
+    if (matchingCategory.kind === 'category') {
+      feeds.unshift({ type: 'application/rss+xml', title: feedTitle, href: podcastFeedPath(matchingCategory) });
+    }
 
-    // Replace meta tags
-    html = html.replace(
-      /<meta property="og:type" content="website">/,
-      `<meta property="og:type" content="website">`
-    );
-    html = html.replace(
-      /<meta property="og:url" content="[^"]*">/,
-      `<meta property="og:url" content="${categoryUrl}">`
-    );
-    html = html.replace(
-      /<meta property="og:title" content="[^"]*">/,
-      `<meta property="og:title" content="${title}">`
-    );
-    html = html.replace(
-      /<meta property="og:description" content="[^"]*">/,
-      `<meta property="og:description" content="${description}">`
-    );
-    html = html.replace(
-      /<meta property="og:image" content="[^"]*">/,
-      `<meta property="og:image" content="${ogImageUrl}">`
-    );
-    html = html.replace(
-      /<meta name="twitter:card" content="summary_large_image">/,
-      `<meta name="twitter:card" content="summary_large_image">`
-    );
-    html = html.replace(
-      /<meta name="twitter:url" content="[^"]*">/,
-      `<meta name="twitter:url" content="${categoryUrl}">`
-    );
-    html = html.replace(
-      /<meta name="twitter:title" content="[^"]*">/,
-      `<meta name="twitter:title" content="${title}">`
-    );
-    html = html.replace(
-      /<meta name="twitter:description" content="[^"]*">/,
-      `<meta name="twitter:description" content="${description}">`
-    );
-    html = html.replace(
-      /<meta name="twitter:image" content="[^"]*">/,
-      `<meta name="twitter:image" content="${ogImageUrl}">`
-    );
-    html = html.replace(
-      /<title>[^<]*<\/title>/,
-      `<title>${title}</title>`
-    );
+    // List the stories the page opens with, and version the share card
+    const [listing, ogCard] = await Promise.all([
+      fetchListingPage({
+        sort: categorySlug === 'popular' ? 'popular' : 'newest',
+        category: matchingCategory.kind === 'category' ? matchingCategory.name : null,
+      }),
+      categoryOgCard(matchingCategory),
+    ]);
+
+    const html = await renderPage({
+      title: `${matchingCategory.name} Stories | Angle`,
+      description,
+      url: categoryUrl,
+      type: 'website',
+      image: { url: ogImageUrl(baseUrl, `/api/og-image/category/${categorySlug}`, ogCard), width: 1200, height: 630 },
+      feeds,
+      structuredData: collectionJsonLd({
+        url: categoryUrl,
+        name: `${matchingCategory.name} Stories`,
+        description,
+        episodes: listing.episodes,
+      }, baseUrl),
+    }, listingContent(categorySlug, listing));
 
     res.setHeader('Content-Type', 'text/html; charset=utf-8');
     res.status(200).end(html);
   } catch (error) {
-    console.error('Error rendering category page:', error);
-    console.error('Error stack:', (error as Error).stack);
-    console.error('Request URL:', req.url);
-    console.error('Request query:', req.query);
+    logger.error('Error rendering category page', { error });
     
     // Return error details in development, redirect in production
-    if (process.env.VERCEL_ENV === 'development' || process.env.NODE_ENV === 'development') {
+    if (isDevelopment()) {
       res.status(500).json({
         error: (error as Error).message,
         stack: (error as Error).stack,
@@ -208,3 +126,5 @@ export default async function handler(
     }
   }
 }
+
+export default instrumentHandler('/api/render/[category]', handler);
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getBaseUrl } from '../../../../lib/config.js';
+import { renderEmbedPage } from '../../../../lib/embed.js';
+import { fetchEpisodeById } from '../../../../lib/episodes.js';
+import { CATALOG_CACHE_CONTROL, sendCacheable } from '../../../../lib/http.js';
+import { instrumentHandler } from '../../../../lib/instrument.js';
+import { logger } from '../../../../lib/log.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  try {
+    // Rewritten from /embed/episode/:id
+    const episodeId = req.query.id;
+
+    if (!episodeId || typeof episodeId !== 'string') {
+      res.status(400).end('Episode ID is required');
+      return;
+    }
+
+    const episode = await fetchEpisodeById(episodeId);
+
+    if (!episode) {
+      res.status(404).end('Episode not found');
+      return;
+    }
+
+    // Partner sites frame this page, so it must not set X-Frame-Options
+    sendCacheable(req, res, {
+      body: renderEmbedPage(episode, getBaseUrl(req)),
+      contentType: 'text/html; charset=utf-8',
+      cacheControl: CATALOG_CACHE_CONTROL,
+    });
+  } catch (error) {
+    logger.error('Error rendering episode embed', { error });
+    res.status(500).end('Failed to render embed');
+  }
+}
+
+export default instrumentHandler('/api/render/embed/episode/[id]', handler);
@@ -0,0 +1,93 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getBaseUrl, isDevelopment } from '../../../lib/config.js';
+import { fetchListingPage } from '../../../lib/episodes.js';
+import { fetchMostRecentEpisodeByHost, resolveHost } from '../../../lib/hosts.js';
+import { instrumentHandler } from '../../../lib/instrument.js';
+import { logger } from '../../../lib/log.js';
+import { episodeOgCard, homeOgCard, homeOgImagePath, ogImageUrl } from '../../../lib/og-cards.js';
+import { listingContent } from '../../../lib/page-content.js';
+import { renderPage } from '../../../lib/page-template.js';
+import { collectionJsonLd } from '../../../lib/structured-data.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  try {
+    // Extract host from query (rewrite /host/:host) or URL path
+    let hostParam = req.query.host as string | undefined;
+
+    if (!hostParam && req.url) {
+      const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+      const pathParts = url.pathname.split('/').filter(Boolean);
+      // /api/render/host/maya-lindqvist or /host/maya-lindqvist
+      if (pathParts.length >= 4 && pathParts[0] === 'api' && pathParts[1] === 'render' && pathParts[2] === 'host') {
+        hostParam = decodeURIComponent(pathParts[3]);
+      } else if (pathParts.length === 2 && pathParts[0] === 'host') {
+        hostParam = decodeURIComponent(pathParts[1]);
+      }
+    }
+
+    if (!hostParam) {
+      res.status(400).end('Host is required');
+      return;
+    }
+
+    const host = await resolveHost(hostParam);
+
+    if (!host) {
+      // Unknown host, redirect to home
+      res.redirect(302, '/');
+      return;
+    }
+
+    // Other spellings (e.g. /host/Maya%20Lindqvist) move to the canonical slug
+    if (hostParam !== host.slug) {
+      res.redirect(301, `/host/${host.slug}`);
+      return;
+    }
+
+    const baseUrl = getBaseUrl(req);
+    const hostUrl = `${baseUrl}/host/${host.slug}`;
+    // Hosts have no card of their own; share their latest episode's
+    const latestEpisode = await fetchMostRecentEpisodeByHost(host);
+    const image = latestEpisode
+      ? ogImageUrl(baseUrl, `/api/og-image/${latestEpisode.id}`, episodeOgCard(latestEpisode))
+      : ogImageUrl(baseUrl, homeOgImagePath(), homeOgCard());
+    const listing = await fetchListingPage({ host: host.name });
+
+    const html = await renderPage({
+      title: `Stories by ${host.name} | Angle`,
+      description: `${host.count} ${host.count === 1 ? 'story' : 'stories'} hosted by ${host.name}, worth listening.`,
+      url: hostUrl,
+      type: 'website',
+      image: { url: image, width: 1200, height: 630 },
+      structuredData: collectionJsonLd({
+        url: hostUrl,
+        name: `Stories by ${host.name}`,
+        description: `Stories hosted by ${host.name}, worth listening.`,
+        episodes: listing.episodes,
+      }, baseUrl),
+    }, listingContent(`host:${host.slug}`, listing));
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.status(200).end(html);
+  } catch (error) {
+    logger.error('Error rendering host page', { error });
+
+    // Return error details in development, redirect in production
+    if (isDevelopment()) {
+      res.status(500).json({
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        query: req.query,
+        url: req.url,
+      });
+    } else {
+      // Fallback: redirect to home
+      res.redirect(302, '/');
+    }
+  }
+}
+
+export default instrumentHandler('/api/render/host/[host]', handler);
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getBaseUrl, isDevelopment } from '../../lib/config.js';
+import { fetchListingPage } from '../../lib/episodes.js';
+import { instrumentHandler } from '../../lib/instrument.js';
+import { logger } from '../../lib/log.js';
+import { homeOgCard, homeOgImagePath, ogImageUrl } from '../../lib/og-cards.js';
+import { listingContent } from '../../lib/page-content.js';
+import { renderPage } from '../../lib/page-template.js';
+import { homeJsonLd } from '../../lib/structured-data.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  try {
+    const baseUrl = getBaseUrl(req);
+    const listing = await fetchListingPage({});
+
+    const html = await renderPage({
+      title: 'Angle',
+      description: 'Stories worth listening.',
+      url: `${baseUrl}/`,
+      type: 'website',
+      image: { url: ogImageUrl(baseUrl, homeOgImagePath(), homeOgCard()), width: 1200, height: 630 },
+      structuredData: homeJsonLd(baseUrl),
+    }, listingContent('all', listing));
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.status(200).end(html);
+  } catch (error) {
+    logger.error('Error rendering home page', { error });
+
+    // Return error details in development, fall back to the client-only page in production
+    if (isDevelopment()) {
+      res.status(500).json({
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        url: req.url,
+      });
+    } else {
+      res.redirect(302, '/app.html');
+    }
+  }
+}
+
+export default instrumentHandler('/api/render', handler);
@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getBaseUrl, isDevelopment } from '../../../lib/config.js';
+import { fetchListingPage } from '../../../lib/episodes.js';
+import { feedPath } from '../../../lib/feeds.js';
+import { instrumentHandler } from '../../../lib/instrument.js';
+import { logger } from '../../../lib/log.js';
+import { ogImageUrl, tagOgCard } from '../../../lib/og-cards.js';
+import { listingContent } from '../../../lib/page-content.js';
+import { renderPage } from '../../../lib/page-template.js';
+import { collectionJsonLd } from '../../../lib/structured-data.js';
+import { resolveTag } from '../../../lib/tags.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  try {
+    // Extract tag from query (rewrite /tag/:tag) or URL path
+    let tagParam = req.query.tag as string | undefined;
+
+    if (!tagParam && req.url) {
+      const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+      const pathParts = url.pathname.split('/').filter(Boolean);
+      // /api/render/tag/climate or /tag/climate
+      if (pathParts.length >= 4 && pathParts[0] === 'api' && pathParts[1] === 'render' && pathParts[2] === 'tag') {
+        tagParam = decodeURIComponent(pathParts[3]);
+      } else if (pathParts.length === 2 && pathParts[0] === 'tag') {
+        tagParam = decodeURIComponent(pathParts[1]);
+      }
+    }
+
+    if (!tagParam) {
+      res.status(400).end('Tag is required');
+      return;
+    }
+
+    const tag = await resolveTag(tagParam);
+
+    if (!tag) {
+      // Unknown tag, redirect to home
+      res.redirect(302, '/');
+      return;
+    }
+
+    // Other spellings (e.g. /tag/New%20York) move to the canonical slug
+    if (tagParam !== tag.slug) {
+      res.redirect(301, `/tag/${tag.slug}`);
+      return;
+    }
+
+    const baseUrl = getBaseUrl(req);
+    const tagUrl = `${baseUrl}/tag/${tag.slug}`;
+    const feedTitle = `Angle: #${tag.name}`;
+    const scope = { kind: 'tag', tag } as const;
+    const [listing, ogCard] = await Promise.all([fetchListingPage({ tag: tag.name }), tagOgCard(tag)]);
+
+    const html = await renderPage({
+      title: `#${tag.name} Stories | Angle`,
+      description: `${tag.count} ${tag.count === 1 ? 'story' : 'stories'} tagged #${tag.name}, worth listening.`,
+      url: tagUrl,
+      type: 'website',
+      image: { url: ogImageUrl(baseUrl, `/api/og-image/tag/${tag.slug}`, ogCard), width: 1200, height: 630 },
+      feeds: [
+        { type: 'application/feed+json', title: feedTitle, href: feedPath('json', scope) },
+        { type: 'application/atom+xml', title: feedTitle, href: feedPath('atom', scope) },
+      ],
+      structuredData: collectionJsonLd({
+        url: tagUrl,
+        name: `#${tag.name} Stories`,
+        description: `Stories tagged #${tag.name}, worth listening.`,
+        episodes: listing.episodes,
+      }, baseUrl),
+    }, listingContent(`tag:${tag.slug}`, listing));
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.status(200).end(html);
+  } catch (error) {
+    logger.error('Error rendering tag page', { error });
+
+    // Return error details in development, redirect in production
+    if (isDevelopment()) {
+      res.status(500).json({
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+        query: req.query,
+        url: req.url,
+      });
+    } else {
+      // Fallback: redirect to home
+      res.redirect(302, '/');
+    }
+  }
+}
+
+export default instrumentHandler('/api/render/tag/[tag]', handler);
@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getConfig } from '../lib/config.js';
+import { sendCacheable } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+
+// robots.txt for the configured origin; previews, staging and local copies
+// ask crawlers to stay away so only production gets indexed
+function buildRobotsTxt(siteUrl: string, indexable: boolean): string {
+  if (!indexable) {
+    return 'User-agent: *\nDisallow: /\n';
+  }
+  return [
+    'User-agent: *',
+    'Allow: /',
+    '',
+    `Sitemap: ${siteUrl}/sitemap.xml`,
+    '# The podcast feed doubles as a sitemap of new episodes',
+    `Sitemap: ${siteUrl}/feed.xml`,
+    '',
+  ].join('\n');
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const { environment, siteUrl } = getConfig();
+  sendCacheable(req, res, {
+    body: buildRobotsTxt(siteUrl, environment === 'production'),
+    contentType: 'text/plain; charset=utf-8',
+    cacheControl: 'public, max-age=3600',
+  });
+}
+
+export default instrumentHandler('/api/robots', handler);
@@ -0,0 +1,126 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { fetchSearchIndex, type ApiResponse } from '../lib/episodes.js';
+import { fetchCategoryRegistry } from '../lib/categories.js';
+import { sendCacheableJson } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+import { searchEpisodes, type SearchResult } from '../lib/search.js';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_QUERY_LENGTH = 200;
+
+function readParam(value: string | string[] | undefined): string {
+  return (Array.isArray(value) ? value[0] : value || '').trim();
+}
+
+function encodeOffset(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+function decodeOffset(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(o) && o >= 0 ? o : null;
+  } catch {
+    return null;
+  }
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  const q = readParam(req.query.q);
+  if (!q) {
+    res.status(400).json({
+      success: false,
+      error: 'Search query is required',
+    } satisfies ApiResponse<never>);
+    return;
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Search query must be at most ${MAX_QUERY_LENGTH} characters`,
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  const limitParam = readParam(req.query.limit);
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    res.status(400).json({
+      success: false,
+      error: 'limit must be a positive integer',
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  const cursor = readParam(req.query.cursor);
+  const offset = cursor ? decodeOffset(cursor) : 0;
+  if (offset === null) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid cursor',
+    } satisfies ApiResponse<never>);
+    return;
+  }
+
+  try {
+    const categoryParam = readParam(req.query.category);
+    const category = categoryParam ? (await fetchCategoryRegistry()).resolve(categoryParam) : null;
+    if (categoryParam && !category) {
+      res.status(400).json({
+        success: false,
+        error: 'Unknown category',
+      } satisfies ApiResponse<never>);
+      return;
+    }
+
+    const index = await fetchSearchIndex();
+    const results = searchEpisodes(index, q, {
+      // The special filters (new, popular) span every category
+      category: category?.kind === 'category' ? category.name : null,
+      tag: readParam(req.query.tag) || null,
+    });
+
+    const pageSize = Math.min(limit, MAX_LIMIT);
+    const end = offset + pageSize;
+    const hasMore = results.length > end;
+
+    sendCacheableJson(req, res, {
+      success: true,
+      data: results.slice(offset, end),
+      pagination: {
+        limit: pageSize,
+        total: results.length,
+        hasMore,
+        nextCursor: hasMore ? encodeOffset(end) : null,
+      },
+    } satisfies ApiResponse<SearchResult[]>);
+  } catch (error) {
+    logger.error('Error in /api/search', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search episodes',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/search', handler);
@@ -1,58 +1,23 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchEpisodes, fetchCategories } from '../lib/supabase.js';
+import { fetchCategoryRegistry } from '../lib/categories.js';
+import { getBaseUrl } from '../lib/config.js';
+import { fetchEpisodes } from '../lib/episodes.js';
+import { fetchHosts } from '../lib/hosts.js';
+import { sendCacheable } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+import { buildSitemap, buildSitemapIndex, parseSitemapName, type SitemapContext } from '../lib/sitemaps.js';
+import { fetchTags } from '../lib/tags.js';
 
-const BASE_URL = 'https://newsangle.co';
+// Crawlers should come back soon rather than drop our URLs
+const RETRY_AFTER_SECONDS = 300;
 
-function formatDate(dateString: string): string {
-  // Convert ISO date string to YYYY-MM-DD format
-  const date = new Date(dateString);
-  return date.toISOString().split('T')[0];
+function sendXmlError(res: VercelResponse, status: number, message: string): void {
+  res.status(status).setHeader('Content-Type', 'text/xml');
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><error>${message}</error>`);
 }
 
-function generateSitemapXML(
-  episodes: Array<{ id: string; createdAt: string }>,
-  categories: string[]
-): string {
-  const urls: string[] = [];
-
-  // Home page
-  urls.push(`  <url>
-    <loc>${BASE_URL}/</loc>
-    <lastmod>${formatDate(new Date().toISOString())}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>1.0</priority>
-  </url>`);
-
-  // Category pages (including special filters)
-  const specialFilters = ['new', 'popular'];
-  const allCategories = [...specialFilters, ...categories];
-  
-  allCategories.forEach((category) => {
-    urls.push(`  <url>
-    <loc>${BASE_URL}/${category}</loc>
-    <lastmod>${formatDate(new Date().toISOString())}</lastmod>
-    <changefreq>daily</changefreq>
-    <priority>0.9</priority>
-  </url>`);
-  });
-
-  // Episode pages
-  episodes.forEach((episode) => {
-    urls.push(`  <url>
-    <loc>${BASE_URL}/episode/${episode.id}</loc>
-    <lastmod>${formatDate(episode.createdAt)}</lastmod>
-    <changefreq>monthly</changefreq>
-    <priority>0.8</priority>
-  </url>`);
-  });
-
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${urls.join('\n')}
-</urlset>`;
-}
-
-export default async function handler(
+async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
@@ -67,40 +32,45 @@ export default async function handler(
   }
 
   if (req.method !== 'GET') {
-    res.status(405).setHeader('Content-Type', 'text/xml');
-    res.end('<?xml version="1.0" encoding="UTF-8"?><error>Method not allowed</error>');
+    sendXmlError(res, 405, 'Method not allowed');
+    return;
+  }
+
+  // /sitemap.xml is the index; /sitemaps/:file is rewritten with ?file=
+  const { file } = req.query;
+  const name = typeof file === 'string' ? parseSitemapName(file) : null;
+  if (file !== undefined && !name) {
+    sendXmlError(res, 404, 'Sitemap not found');
     return;
   }
 
   try {
-    // Fetch episodes and categories in parallel
-    const [episodes, categories] = await Promise.all([
+    const [episodes, registry, tags, hosts] = await Promise.all([
       fetchEpisodes(),
-      fetchCategories().catch(() => [] as string[]), // Fallback to empty array if categories fail
+      fetchCategoryRegistry(),
+      fetchTags(),
+      fetchHosts(),
     ]);
-    
-    // Generate sitemap XML
-    const sitemapXML = generateSitemapXML(episodes, categories);
+    const context: SitemapContext = { baseUrl: getBaseUrl(req), episodes, registry, tags, hosts, now: new Date() };
 
-    // Set cache headers (1 hour)
-    res.setHeader('Cache-Control', 'public, max-age=3600');
-    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
-    res.status(200).end(sitemapXML);
+    const xml = name ? buildSitemap(name, context) : buildSitemapIndex(context);
+    if (xml === null) {
+      sendXmlError(res, 404, 'Sitemap not found');
+      return;
+    }
+
+    // The news sitemap ages out by the hour; the rest only change with new episodes
+    sendCacheable(req, res, {
+      body: xml,
+      contentType: 'application/xml; charset=utf-8',
+      cacheControl: name === 'news' ? 'public, max-age=600' : 'public, max-age=3600',
+    });
   } catch (error) {
-    console.error('Error in /api/sitemap:', error);
-    
-    // Return minimal valid sitemap with just home page on error
-    const fallbackSitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-  <url>
-    <loc>${BASE_URL}/</loc>
-    <lastmod>${formatDate(new Date().toISOString())}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>1.0</priority>
-  </url>
-</urlset>`;
-    
-    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
-    res.status(200).end(fallbackSitemap);
+    logger.error('Error in /api/sitemap', { error });
+    res.setHeader('Retry-After', String(RETRY_AFTER_SECONDS));
+    res.setHeader('Cache-Control', 'no-store');
+    sendXmlError(res, 503, 'Sitemap temporarily unavailable');
   }
 }
+
+export default instrumentHandler('/api/sitemap', handler);
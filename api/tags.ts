@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { ApiResponse } from '../lib/episodes.js';
+import { sendCacheableJson } from '../lib/http.js';
+import { instrumentHandler } from '../lib/instrument.js';
+import { logger } from '../lib/log.js';
+import { fetchTags, type Tag } from '../lib/tags.js';
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const tags = await fetchTags();
+    sendCacheableJson(req, res, {
+      success: true,
+      data: tags,
+    } satisfies ApiResponse<Tag[]>);
+  } catch (error) {
+    logger.error('Error in /api/tags', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch tags',
+    } satisfies ApiResponse<never>);
+  }
+}
+
+export default instrumentHandler('/api/tags', handler);
@@ -0,0 +1,96 @@
+/**
+ * In-memory read-through cache shared by every handler in an instance.
+ *
+ * An entry is fresh for `ttlMs`, then served stale for up to `staleMs` more
+ * while a single background load refreshes it. Concurrent misses for the same
+ * key share one load, so a burst of traffic costs one data-source query.
+ */
+import { logger } from './log.js';
+
+export interface CacheOptions {
+  ttlMs: number;
+  staleMs: number;
+  // How long a null result (nothing found) is kept instead, with no stale window;
+  // lookups set it short so a missing row that appears is seen soon
+  nullTtlMs?: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+// Oldest entries are evicted past this size
+const MAX_ENTRIES = 500;
+
+const entries = new Map<string, CacheEntry<unknown>>();
+const pending = new Map<string, Promise<unknown>>();
+
+function store<T>(key: string, value: T, options: CacheOptions): void {
+  const now = Date.now();
+  const isMiss = value === null && options.nullTtlMs !== undefined;
+  const ttlMs = isMiss ? options.nullTtlMs! : options.ttlMs;
+  entries.delete(key);
+  entries.set(key, {
+    value,
+    freshUntil: now + ttlMs,
+    staleUntil: now + ttlMs + (isMiss ? 0 : options.staleMs),
+  });
+
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+  }
+}
+
+// Runs one load per key at a time and stores its result
+function load<T>(key: string, loader: () => Promise<T>, options: CacheOptions): Promise<T> {
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    return inFlight as Promise<T>;
+  }
+
+  const promise = loader()
+    .then((value) => {
+      store(key, value, options);
+      return value;
+    })
+    .finally(() => {
+      pending.delete(key);
+    });
+  pending.set(key, promise);
+  return promise;
+}
+
+/**
+ * Returns the cached value for `key`, loading it when missing or expired.
+ * Values are shared between callers and must be treated as read-only.
+ */
+export async function cached<T>(key: string, loader: () => Promise<T>, options: CacheOptions): Promise<T> {
+  const entry = entries.get(key) as CacheEntry<T> | undefined;
+  const now = Date.now();
+
+  if (entry && entry.freshUntil > now) {
+    return entry.value;
+  }
+
+  if (entry && entry.staleUntil > now) {
+    // Serve stale and refresh in the background; a failed refresh keeps the stale value
+    load(key, loader, options).catch((error) => {
+      logger.error('Error refreshing cache entry', { key, error });
+    });
+    return entry.value;
+  }
+
+  return load(key, loader, options);
+}
+
+// Drops every entry whose key starts with `prefix` (everything when omitted)
+export function invalidateCache(prefix = ''): void {
+  for (const key of [...entries.keys()]) {
+    if (key.startsWith(prefix)) {
+      entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { fetchCategories } from './episodes.js';
+import { slugify } from './slug.js';
+
+/**
+ * A browsable section of the site: either an episode category or one of the
+ * special filters (/new, /popular). The slug is the only form used in URLs.
+ */
+export interface Category {
+  slug: string;
+  name: string;
+  description: string;
+  // Accent color for tags and OG images
+  color: string;
+  sortOrder: number;
+  // Other names and slugs that resolve to this category
+  aliases: string[];
+  kind: 'category' | 'filter';
+}
+
+type CategoryDefinition = Omit<Category, 'slug' | 'kind' | 'aliases'> & {
+  slug?: string;
+  aliases?: string[];
+};
+
+const DEFAULT_COLOR = '#2a2a2a';
+const DEFAULT_SORT_ORDER = 1000;
+
+export const SPECIAL_FILTERS: Category[] = [
+  {
+    slug: 'new',
+    name: 'New',
+    description: 'Latest stories worth listening.',
+    color: '#ffffff',
+    sortOrder: 0,
+    aliases: ['latest', 'recent'],
+    kind: 'filter',
+  },
+  {
+    slug: 'popular',
+    name: 'Popular',
+    description: 'Popular stories worth listening.',
+    color: '#ffffff',
+    sortOrder: 1,
+    aliases: ['trending'],
+    kind: 'filter',
+  },
+];
+
+// Editorial metadata for known categories, keyed by the name stored on episodes.
+// Categories without an entry still work, with derived defaults.
+const CATEGORY_DEFINITIONS: CategoryDefinition[] = [
+  {
+    name: 'Business & Economy',
+    description: 'Stories about money, work and the companies that shape daily life.',
+    color: '#c9a227',
+    sortOrder: 10,
+    aliases: ['business', 'economy'],
+  },
+  {
+    name: 'Culture',
+    description: 'Stories about the people, places and traditions that make us who we are.',
+    color: '#b5577b',
+    sortOrder: 20,
+    aliases: ['arts'],
+  },
+  {
+    name: 'Health',
+    description: 'Stories about bodies, minds and medicine.',
+    color: '#3f9e6e',
+    sortOrder: 30,
+    aliases: ['wellbeing'],
+  },
+  {
+    name: 'Science',
+    description: 'Stories from the edges of what we know.',
+    color: '#3d7cc9',
+    sortOrder: 40,
+  },
+  {
+    name: 'Sports',
+    description: 'Stories from the field, the track and the stands.',
+    color: '#d9622b',
+    sortOrder: 50,
+    aliases: ['sport'],
+  },
+  {
+    name: 'Technology',
+    description: 'Stories about the machines we build and how they change us.',
+    color: '#7a5cc9',
+    sortOrder: 60,
+    aliases: ['tech'],
+  },
+];
+
+// Loose lookup key: ignores case, punctuation and "and", so "business-economy",
+// "Business & Economy" and "business-and-economy" all match
+function lookupKey(value: string): string {
+  return slugify(value)
+    .split('-')
+    .filter((word) => word !== 'and')
+    .join('');
+}
+
+function defineCategory(name: string): Category {
+  const definition = CATEGORY_DEFINITIONS.find((d) => lookupKey(d.name) === lookupKey(name));
+  return {
+    slug: definition?.slug || slugify(name),
+    name,
+    description: definition?.description || `${name} stories worth listening.`,
+    color: definition?.color || DEFAULT_COLOR,
+    sortOrder: definition?.sortOrder ?? DEFAULT_SORT_ORDER,
+    aliases: definition?.aliases || [],
+    kind: 'category',
+  };
+}
+
+export interface CategoryRegistry {
+  // Special filters first, then categories by sort order and name
+  all: Category[];
+  categories: Category[];
+  filters: Category[];
+  // Finds a category or filter by slug, name or alias
+  resolve(value: string): Category | null;
+}
+
+export function buildCategoryRegistry(names: string[]): CategoryRegistry {
+  const categories = names
+    .map(defineCategory)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  const all = [...SPECIAL_FILTERS, ...categories];
+
+  // Slugs and names are indexed before aliases, so an alias never shadows them
+  const index = new Map<string, Category>();
+  const register = (value: string, category: Category) => {
+    const key = lookupKey(value);
+    if (key && !index.has(key)) {
+      index.set(key, category);
+    }
+  };
+  for (const category of all) {
+    register(category.slug, category);
+    register(category.name, category);
+  }
+  for (const category of all) {
+    category.aliases.forEach((alias) => register(alias, category));
+  }
+
+  return {
+    all,
+    categories,
+    filters: SPECIAL_FILTERS,
+    resolve(value) {
+      return index.get(lookupKey(value)) || null;
+    },
+  };
+}
+
+// Registry of the special filters and every category that has episodes
+export async function fetchCategoryRegistry(): Promise<CategoryRegistry> {
+  return buildCategoryRegistry(await fetchCategories());
+}
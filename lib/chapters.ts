@@ -0,0 +1,30 @@
+import { absoluteUrl } from './page-template.js';
+import type { Episode } from './types.js';
+
+export const CHAPTERS_CONTENT_TYPE = 'application/json+chapters; charset=utf-8';
+
+export function chaptersPath(episode: Pick<Episode, 'id'>): string {
+  return `/api/episodes/${encodeURIComponent(episode.id)}/chapters`;
+}
+
+// Podcasting 2.0 chapters JSON (https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md)
+export function buildChaptersJson(episode: Episode, baseUrl: string): object {
+  const chapters = episode.chapters || [];
+  return {
+    version: '1.2.0',
+    title: episode.title,
+    podcastName: 'Angle',
+    ...(episode.audioUrl && { fileName: absoluteUrl(baseUrl, episode.audioUrl) }),
+    chapters: chapters.map((chapter, index) => {
+      const next = chapters[index + 1];
+      const endTime = next ? next.startTime : episode.duration;
+      return {
+        startTime: chapter.startTime,
+        ...(endTime && endTime > chapter.startTime && { endTime }),
+        title: chapter.title,
+        ...(chapter.img && { img: absoluteUrl(baseUrl, chapter.img) }),
+        ...(chapter.url && { url: absoluteUrl(baseUrl, chapter.url) }),
+      };
+    }),
+  };
+}
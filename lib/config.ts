@@ -0,0 +1,204 @@
+/**
+ * Settings from the environment, read and validated once per instance. Code
+ * reads them from getConfig() instead of process.env, so a missing or
+ * malformed value fails every request the same way and /api/health/ready
+ * reports it.
+ *
+ *   SITE_URL            canonical origin; required in production
+ *   ALLOWED_HOSTS       other hosts that serve the site (staging), comma-separated; *.example.com matches subdomains
+ *   DATA_SOURCE         supabase (default) or fixture
+ *   SUPABASE_URL, SUPABASE_ANON_KEY   required for supabase
+ *   SUPABASE_SERVICE_ROLE_KEY   required for supabase; engagement events are server-only
+ *   FIXTURE_PATH        fixture file, default fixtures/episodes.json
+ *   METRICS_TOKEN       bearer token for /api/metrics; without it production serves no metrics
+ *   DATA_QUALITY_TOKEN  bearer token for /api/data-quality; likewise off in production without it
+ *   PODCAST_OWNER_EMAIL, OG_CACHE_DIR, LOG_LEVEL   optional
+ *
+ * Preview deployments are served from VERCEL_URL and VERCEL_BRANCH_URL,
+ * which Vercel sets; both are allowed hosts, and SITE_URL defaults to them.
+ */
+import type { VercelRequest } from '@vercel/node';
+
+export type Environment = 'production' | 'preview' | 'development';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type DataSourceConfig =
+  | { kind: 'supabase'; url: string; anonKey: string; serviceRoleKey: string }
+  | { kind: 'fixture'; path: string };
+
+export interface AppConfig {
+  environment: Environment;
+  // Origin absolute URLs use unless the request came in on an allowed host
+  siteUrl: string;
+  // Hosts besides the canonical one whose requests get URLs on their own host
+  allowedHosts: string[];
+  dataSource: DataSourceConfig;
+  podcastOwnerEmail: string | null;
+  // Where rendered OG images are stored; null for the system temp directory
+  ogCacheDir: string | null;
+  // Bearer token /api/metrics requires; null leaves it open, or off in production
+  metricsToken: string | null;
+  // Same for /api/data-quality, which reads every row of the episodes table
+  dataQualityToken: string | null;
+  logLevel: LogLevel;
+  // Set by scripts/export-static.ts: pages are served by a static host, without functions
+  staticMirror: boolean;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration: ${problems.join('; ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_FIXTURE_PATH = 'fixtures/episodes.json';
+const DEV_SITE_URL = 'http://localhost:3000';
+
+type Env = Record<string, string | undefined>;
+
+// Vercel sets VERCEL_ENV; anywhere else, NODE_ENV=production is production
+function resolveEnvironment(env: Env): Environment {
+  if (env.VERCEL_ENV === 'production' || env.VERCEL_ENV === 'preview' || env.VERCEL_ENV === 'development') {
+    return env.VERCEL_ENV;
+  }
+  return env.NODE_ENV === 'production' ? 'production' : 'development';
+}
+
+function parseOrigin(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && url.pathname === '/' && !url.search
+      ? url.origin
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function list(value: string | undefined): string[] {
+  return (value || '').split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+// Reads and validates `env`, reporting every problem at once
+export function loadConfig(env: Env = process.env): AppConfig {
+  const problems: string[] = [];
+  const environment = resolveEnvironment(env);
+  const vercelHosts = list([env.VERCEL_URL, env.VERCEL_BRANCH_URL].filter(Boolean).join(','));
+
+  let siteUrl = DEV_SITE_URL;
+  if (env.SITE_URL) {
+    const origin = parseOrigin(env.SITE_URL);
+    if (origin) {
+      siteUrl = origin;
+    } else {
+      problems.push('SITE_URL must be an origin such as https://example.com');
+    }
+  } else if (environment === 'production') {
+    problems.push('SITE_URL is required in production');
+  } else if (environment === 'preview' && vercelHosts[0]) {
+    siteUrl = `https://${vercelHosts[vercelHosts.length - 1]}`;
+  }
+
+  const allowedHosts = [...list(env.ALLOWED_HOSTS), ...vercelHosts];
+  for (const host of allowedHosts) {
+    if (!/^(\*\.)?[a-z0-9.-]+(:\d+)?$/.test(host)) {
+      problems.push(`ALLOWED_HOSTS has an invalid host "${host}"`);
+    }
+  }
+
+  let dataSource: DataSourceConfig = { kind: 'fixture', path: env.FIXTURE_PATH || DEFAULT_FIXTURE_PATH };
+  const kind = (env.DATA_SOURCE || 'supabase').toLowerCase();
+  if (kind === 'supabase') {
+    if (!env.SUPABASE_URL || !parseOrigin(env.SUPABASE_URL)) {
+      problems.push(env.SUPABASE_URL ? 'SUPABASE_URL is not a URL' : 'SUPABASE_URL is required when DATA_SOURCE is supabase');
+    }
+    if (!env.SUPABASE_ANON_KEY) {
+      problems.push('SUPABASE_ANON_KEY is required when DATA_SOURCE is supabase');
+    }
+    if (!env.SUPABASE_SERVICE_ROLE_KEY) {
+      problems.push('SUPABASE_SERVICE_ROLE_KEY is required when DATA_SOURCE is supabase');
+    }
+    dataSource = {
+      kind: 'supabase',
+      url: env.SUPABASE_URL || '',
+      anonKey: env.SUPABASE_ANON_KEY || '',
+      serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY || '',
+    };
+  } else if (kind !== 'fixture') {
+    problems.push(`Unknown DATA_SOURCE "${kind}" (expected "supabase" or "fixture")`);
+  }
+
+  const podcastOwnerEmail = env.PODCAST_OWNER_EMAIL || null;
+  if (podcastOwnerEmail && !/^[^@\s]+@[^@\s]+$/.test(podcastOwnerEmail)) {
+    problems.push('PODCAST_OWNER_EMAIL is not an email address');
+  }
+
+  const logLevel = (env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
+    problems.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return {
+    environment,
+    siteUrl,
+    allowedHosts,
+    dataSource,
+    podcastOwnerEmail,
+    ogCacheDir: env.OG_CACHE_DIR || null,
+    metricsToken: env.METRICS_TOKEN || null,
+    dataQualityToken: env.DATA_QUALITY_TOKEN || null,
+    logLevel,
+    staticMirror: false,
+  };
+}
+
+let config: AppConfig | null = null;
+
+export function getConfig(): AppConfig {
+  if (!config) {
+    config = loadConfig();
+  }
+  return config;
+}
+
+// Overrides the configuration (scripts, local tooling)
+export function setConfig(override: AppConfig | null): void {
+  config = override;
+}
+
+export function isDevelopment(): boolean {
+  return getConfig().environment === 'development';
+}
+
+// Whether the site may be served from `host`: the canonical host, an allowed one,
+// or any host during development (LAN addresses, tunnels)
+export function isSiteHost(host: string): boolean {
+  const { environment, siteUrl, allowedHosts } = getConfig();
+  const name = host.toLowerCase();
+  return environment === 'development' ||
+    name === new URL(siteUrl).host ||
+    allowedHosts.some((allowed) => allowed.startsWith('*.') ? name.endsWith(allowed.slice(1)) : name === allowed);
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return (Array.isArray(value) ? value[0] : value)?.split(',')[0].trim();
+}
+
+// Origin for absolute URLs in a response: the request's own when it came in on a
+// site host (so previews and staging link to themselves), the canonical one otherwise
+export function getBaseUrl(req: VercelRequest): string {
+  const host = headerValue(req.headers['x-forwarded-host']) || headerValue(req.headers.host);
+  if (!host || !isSiteHost(host)) {
+    return getConfig().siteUrl;
+  }
+  const protocol = headerValue(req.headers['x-forwarded-proto']) ||
+    (req.headers['x-forwarded-ssl'] === 'on' ? 'https' : 'http');
+  return `${protocol === 'https' ? 'https' : 'http'}://${host}`;
+}
@@ -0,0 +1,74 @@
+import { validateEpisodeRow, type RowIssue } from './episode-row.js';
+
+export interface EpisodeQuality {
+  id: string | null;
+  title: string | null;
+  createdAt: string | null;
+  // Rejected episodes are not served at all
+  rejected: boolean;
+  issues: RowIssue[];
+}
+
+export interface DataQualityReport {
+  generatedAt: string;
+  checked: number;
+  rejected: number;
+  flagged: number;
+  // Issue counts per field, e.g. { cover_url: 3, duration: 1 }
+  fields: Record<string, number>;
+  episodes: EpisodeQuality[];
+}
+
+function readText(row: unknown, column: string): string | null {
+  if (!row || typeof row !== 'object') {
+    return null;
+  }
+  const value = (row as Record<string, unknown>)[column];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+/**
+ * Runs every published row through the episode validator and lists the ones
+ * with missing or invalid fields, rejected rows first.
+ */
+export function buildDataQualityReport(rows: unknown[], severity: 'error' | 'warning' = 'warning'): DataQualityReport {
+  const fields: Record<string, number> = {};
+  const episodes: EpisodeQuality[] = [];
+  let rejected = 0;
+
+  for (const row of rows) {
+    const validation = validateEpisodeRow(row);
+    const issues = severity === 'error'
+      ? validation.issues.filter((issue) => issue.severity === 'error')
+      : validation.issues;
+
+    if (!validation.episode) {
+      rejected++;
+    }
+    if (issues.length === 0) {
+      continue;
+    }
+
+    for (const issue of issues) {
+      fields[issue.field] = (fields[issue.field] || 0) + 1;
+    }
+    episodes.push({
+      id: readText(row, 'id'),
+      title: readText(row, 'title'),
+      createdAt: readText(row, 'created_at'),
+      rejected: !validation.episode,
+      issues,
+    });
+  }
+
+  episodes.sort((a, b) => Number(b.rejected) - Number(a.rejected));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    checked: rows.length,
+    rejected,
+    flagged: episodes.length,
+    fields,
+    episodes,
+  };
+}
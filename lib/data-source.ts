@@ -0,0 +1,46 @@
+import { getConfig } from './config.js';
+import type { EpisodePage, EpisodeQuery } from './episode-query.js';
+import type { EngagementEvent, Episode } from './types.js';
+import { createSupabaseDataSource } from './supabase.js';
+import { createFixtureDataSource } from './fixture.js';
+import { instrumentDataSource } from './instrument.js';
+
+/**
+ * Everything the API needs from the episode catalog. Only completed episodes
+ * are ever returned.
+ */
+export interface EpisodeDataSource {
+  name: string;
+  // Raw, unvalidated rows of every completed episode (data-quality reporting)
+  listEpisodeRows(): Promise<unknown[]>;
+  listEpisodes(): Promise<Episode[]>;
+  // One filtered page of episodes in date order ('popular' is ranked by lib/popularity.ts)
+  queryEpisodes(query: EpisodeQuery): Promise<EpisodePage>;
+  getEpisode(id: string): Promise<Episode | null>;
+  listCategories(): Promise<string[]>;
+  // `category` omitted means the most recent episode overall
+  getMostRecentEpisode(category?: string): Promise<Episode | null>;
+  // Events repeating the `dedupeKey` of a stored one are dropped
+  recordEngagementEvent(event: EngagementEvent): Promise<void>;
+  // Decayed score per episode over events recorded at or after `since` (ISO
+  // timestamp), as lib/popularity.ts defines it
+  getPopularityScores(since: string): Promise<Map<string, number>>;
+}
+
+let dataSource: EpisodeDataSource | null = null;
+
+// The data source the configuration names, timing its calls for /api/metrics
+export function getDataSource(): EpisodeDataSource {
+  if (!dataSource) {
+    const config = getConfig().dataSource;
+    dataSource = instrumentDataSource(config.kind === 'fixture'
+      ? createFixtureDataSource(config.path)
+      : createSupabaseDataSource(config));
+  }
+  return dataSource;
+}
+
+// Overrides the configured data source (scripts, local tooling)
+export function setDataSource(source: EpisodeDataSource | null): void {
+  dataSource = source && instrumentDataSource(source);
+}
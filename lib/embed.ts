@@ -0,0 +1,274 @@
+import { isSiteHost } from './config.js';
+import { html } from './html.js';
+import { formatTime } from './page-content.js';
+import { absoluteUrl } from './page-template.js';
+import type { Episode } from './types.js';
+
+// The player is a fixed-height strip that stretches to the frame's width
+export const EMBED_WIDTH = 600;
+export const EMBED_HEIGHT = 152;
+const MIN_EMBED_WIDTH = 280;
+
+const PROVIDER_NAME = 'Angle';
+
+export function embedPath(episodeId: string): string {
+  return `/embed/episode/${encodeURIComponent(episodeId)}`;
+}
+
+// oEmbed discovery URL for a page, as linked from its <head>
+export function oembedUrl(baseUrl: string, pageUrl: string): string {
+  return `${baseUrl}/api/oembed?${new URLSearchParams({ url: pageUrl, format: 'json' })}`;
+}
+
+// Episode ID from an /episode/:id or /embed/episode/:id URL on any of the site's hosts, or null
+export function episodeIdFromUrl(value: string, baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  // Accept either scheme, since links get copied from both
+  if (url.host !== new URL(baseUrl).host && !isSiteHost(url.host)) {
+    return null;
+  }
+  const match = url.pathname.match(/^\/(?:embed\/)?episode\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// oEmbed 1.0 "rich" response (https://oembed.com/#section2.3)
+export interface OEmbedResponse {
+  version: '1.0';
+  type: 'rich';
+  provider_name: string;
+  provider_url: string;
+  title: string;
+  author_name?: string;
+  html: string;
+  width: number;
+  height: number;
+  thumbnail_url?: string;
+  cache_age: number;
+}
+
+// A consumer's maxwidth and maxheight, when it sent them
+export interface OEmbedLimits {
+  maxWidth: number | null;
+  maxHeight: number | null;
+}
+
+// Null when the player cannot fit the limits: it has a minimum width and a fixed height
+export function buildOEmbed(episode: Episode, baseUrl: string, limits: OEmbedLimits): OEmbedResponse | null {
+  const width = Math.min(EMBED_WIDTH, limits.maxWidth ?? EMBED_WIDTH);
+  if (width < MIN_EMBED_WIDTH || (limits.maxHeight !== null && limits.maxHeight < EMBED_HEIGHT)) {
+    return null;
+  }
+  const iframe = html`<iframe src="${baseUrl}${embedPath(episode.id)}" width="${width}" height="${EMBED_HEIGHT}" title="${episode.title}" frameborder="0" allow="autoplay" loading="lazy" style="border:0;border-radius:12px;max-width:100%"></iframe>`;
+
+  return {
+    version: '1.0',
+    type: 'rich',
+    provider_name: PROVIDER_NAME,
+    provider_url: `${baseUrl}/`,
+    title: episode.title,
+    ...(episode.host && { author_name: episode.host }),
+    html: iframe.value,
+    width,
+    height: EMBED_HEIGHT,
+    ...(episode.coverImage && { thumbnail_url: absoluteUrl(baseUrl, episode.coverImage) }),
+    cache_age: 3600,
+  };
+}
+
+// Standalone player page for iframes: cover, title and a play button, no app shell
+export function renderEmbedPage(episode: Episode, baseUrl: string): string {
+  const episodeUrl = `${baseUrl}/episode/${episode.id}`;
+  const duration = episode.duration ? formatTime(episode.duration) : null;
+
+  return html`<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>${episode.title} | Angle</title>
+    <link rel="canonical" href="${episodeUrl}">
+    <style>
+        @font-face {
+            font-family: 'LTT Recoletta';
+            src: url('/fonts/LttRecoleta-CmpRegular.otf') format('opentype');
+        }
+
+        @font-face {
+            font-family: 'Berkeley Mono';
+            src: url('/fonts/BerkeleyMono-Regular.otf') format('opentype');
+        }
+
+        * {
+            box-sizing: border-box;
+        }
+
+        html, body {
+            margin: 0;
+            height: 100%;
+            background: transparent;
+        }
+
+        .player {
+            display: flex;
+            height: ${EMBED_HEIGHT}px;
+            border-radius: 12px;
+            overflow: hidden;
+            background-color: #1a1a1a;
+            color: #ffffff;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+
+        .player-cover {
+            width: ${EMBED_HEIGHT}px;
+            height: 100%;
+            object-fit: cover;
+            flex-shrink: 0;
+        }
+
+        .player-body {
+            display: flex;
+            flex-direction: column;
+            justify-content: space-between;
+            min-width: 0;
+            flex: 1;
+            padding: 16px;
+        }
+
+        .player-label {
+            font-family: 'Berkeley Mono', 'Courier New', Courier, monospace;
+            font-size: 10px;
+            color: #b0b0b0;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+
+        .player-label a {
+            color: inherit;
+            text-decoration: none;
+        }
+
+        .player-title {
+            display: -webkit-box;
+            -webkit-line-clamp: 2;
+            -webkit-box-orient: vertical;
+            overflow: hidden;
+            margin: 4px 0 0;
+            font-family: 'LTT Recoletta', Georgia, 'Times New Roman', serif;
+            font-size: 20px;
+            font-weight: 400;
+            line-height: 1.15;
+            color: inherit;
+            text-decoration: none;
+        }
+
+        .player-controls {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+        }
+
+        .player-play {
+            width: 36px;
+            height: 36px;
+            flex-shrink: 0;
+            border: none;
+            border-radius: 50%;
+            background-color: #ffffff;
+            color: #000000;
+            font-size: 14px;
+            cursor: pointer;
+        }
+
+        .player-progress {
+            flex: 1;
+            height: 4px;
+            border-radius: 2px;
+            background-color: rgba(255, 255, 255, 0.2);
+            cursor: pointer;
+        }
+
+        .player-progress-filled {
+            width: 0;
+            height: 100%;
+            border-radius: 2px;
+            background-color: #ffffff;
+        }
+
+        .player-time {
+            font-family: 'Berkeley Mono', 'Courier New', Courier, monospace;
+            font-size: 10px;
+            color: #b0b0b0;
+            white-space: nowrap;
+        }
+    </style>
+</head>
+<body>
+    <div class="player">
+        <img class="player-cover" src="${absoluteUrl(baseUrl, episode.coverImage || '/images/icon.webp')}" alt="">
+        <div class="player-body">
+            <div>
+                <div class="player-label"><a href="${baseUrl}/" target="_blank" rel="noopener">Angle</a>${episode.category && html` · ${episode.category}`}</div>
+                <a class="player-title" href="${episodeUrl}" target="_blank" rel="noopener">${episode.title}</a>
+            </div>
+            ${episode.audioUrl
+              ? html`<div class="player-controls">
+                <audio id="audio" src="${absoluteUrl(baseUrl, episode.audioUrl)}" preload="none"></audio>
+                <button class="player-play" id="play" type="button" aria-label="Play">▶</button>
+                <div class="player-progress" id="progress"><div class="player-progress-filled" id="progressFilled"></div></div>
+                <span class="player-time" id="time">${duration || ''}</span>
+            </div>`
+              : html`<div class="player-controls">
+                <a class="player-time" href="${episodeUrl}" target="_blank" rel="noopener">Listen on Angle</a>
+                ${duration && html`<span class="player-time">${duration}</span>`}
+            </div>`}
+        </div>
+    </div>
+    ${episode.audioUrl && html`<script>
+        const audio = document.getElementById('audio');
+        const play = document.getElementById('play');
+        const progress = document.getElementById('progress');
+        const progressFilled = document.getElementById('progressFilled');
+        const time = document.getElementById('time');
+
+        function formatTime(seconds) {
+            const total = Math.floor(seconds || 0);
+            const minutes = Math.floor(total / 60);
+            return minutes + ':' + String(total % 60).padStart(2, '0');
+        }
+
+        play.addEventListener('click', () => {
+            if (audio.paused) {
+                audio.play();
+            } else {
+                audio.pause();
+            }
+        });
+        audio.addEventListener('play', () => {
+            play.textContent = '⏸';
+            play.setAttribute('aria-label', 'Pause');
+        });
+        audio.addEventListener('pause', () => {
+            play.textContent = '▶';
+            play.setAttribute('aria-label', 'Play');
+        });
+        audio.addEventListener('timeupdate', () => {
+            if (!audio.duration) return;
+            progressFilled.style.width = (audio.currentTime / audio.duration * 100) + '%';
+            time.textContent = formatTime(audio.currentTime) + ' / ' + formatTime(audio.duration);
+        });
+        progress.addEventListener('click', (e) => {
+            if (!audio.duration) return;
+            const rect = progress.getBoundingClientRect();
+            audio.currentTime = (e.clientX - rect.left) / rect.width * audio.duration;
+        });
+    </script>`}
+</body>
+</html>
+`.value;
+}
@@ -0,0 +1,213 @@
+import { slugify } from './slug.js';
+import type { Episode, EpisodeSummary } from './types.js';
+
+export type EpisodeSort = 'newest' | 'oldest' | 'popular';
+
+export const EPISODE_SORTS: EpisodeSort[] = ['newest', 'oldest', 'popular'];
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+// Position of the last episode on the previous page
+export interface EpisodeCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface EpisodeQuery {
+  limit: number;
+  sort: EpisodeSort;
+  // Keyset position for date sorts
+  cursor: EpisodeCursor | null;
+  // Rank offset for 'popular', whose order shifts as scores change
+  offset: number;
+  category: string | null;
+  // Tag name or slug; episodes match when any of their tags has the same slug
+  tag: string | null;
+  // Every spelling of the tag in the catalog, for sources that match raw tags (Supabase)
+  tagNames?: string[];
+  host: string | null;
+  // ISO timestamps, inclusive
+  from: string | null;
+  to: string | null;
+}
+
+export interface EpisodePage {
+  episodes: Episode[];
+  // Matches for the filters, ignoring the cursor
+  total: number;
+  hasMore: boolean;
+}
+
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidQueryError';
+  }
+}
+
+type QueryParams = Record<string, string | string[] | undefined>;
+
+function readParam(params: QueryParams, name: string): string | null {
+  const value = params[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined) {
+    return null;
+  }
+  const trimmed = first.trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+// Accepts full timestamps or plain dates; a plain `to` date covers the whole day
+function parseDateParam(value: string | null, name: string, endOfDay: boolean): string | null {
+  if (value === null) {
+    return null;
+  }
+  const isPlainDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = Date.parse(isPlainDate ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(time)) {
+    throw new InvalidQueryError(`Invalid ${name} date`);
+  }
+  const date = new Date(isPlainDate && endOfDay ? time + 86_400_000 - 1 : time);
+  return date.toISOString();
+}
+
+// Encodes the position after the last episode of a page: the episode itself
+// for date sorts, the next rank offset for 'popular'
+export function encodeCursor(sort: EpisodeSort, position: Pick<Episode, 'createdAt' | 'id'> | number): string {
+  const payload = typeof position === 'number'
+    ? { s: sort, o: position }
+    : { s: sort, t: position.createdAt, i: position.id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Cursor fields end up in a PostgREST filter, so only well-formed values are accepted
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const EPISODE_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isCursorPosition(createdAt: unknown, id: unknown): boolean {
+  return typeof createdAt === 'string'
+    && CURSOR_TIMESTAMP.test(createdAt)
+    && !Number.isNaN(Date.parse(createdAt))
+    && typeof id === 'string'
+    && EPISODE_ID.test(id);
+}
+
+export function decodeCursor(cursor: string, sort: EpisodeSort): Pick<EpisodeQuery, 'cursor' | 'offset'> {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (decoded.s === sort && sort === 'popular' && Number.isInteger(decoded.o) && decoded.o >= 0) {
+      return { cursor: null, offset: decoded.o };
+    }
+    if (decoded.s === sort && isCursorPosition(decoded.t, decoded.i)) {
+      return { cursor: { createdAt: decoded.t, id: decoded.i }, offset: 0 };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidQueryError('Invalid cursor');
+}
+
+/**
+ * Parses the /api/episodes query string. Throws InvalidQueryError for values
+ * that cannot be honoured, so callers can answer with a 400.
+ */
+export function parseEpisodeQuery(params: QueryParams): EpisodeQuery {
+  const limitParam = readParam(params, 'limit');
+  let limit = DEFAULT_PAGE_SIZE;
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidQueryError('limit must be a positive integer');
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  const sortParam = readParam(params, 'sort') || 'newest';
+  if (!EPISODE_SORTS.includes(sortParam as EpisodeSort)) {
+    throw new InvalidQueryError(`sort must be one of ${EPISODE_SORTS.join(', ')}`);
+  }
+  const sort = sortParam as EpisodeSort;
+
+  const cursorParam = readParam(params, 'cursor');
+
+  const from = parseDateParam(readParam(params, 'from'), 'from', false);
+  const to = parseDateParam(readParam(params, 'to'), 'to', true);
+  if (from && to && from > to) {
+    throw new InvalidQueryError('from must not be after to');
+  }
+
+  return {
+    limit,
+    sort,
+    ...(cursorParam ? decodeCursor(cursorParam, sort) : { cursor: null, offset: 0 }),
+    category: readParam(params, 'category'),
+    tag: readParam(params, 'tag'),
+    host: readParam(params, 'host'),
+    from,
+    to,
+  };
+}
+
+// Episode list items leave out the transcript; it is served by /api/episodes/:id
+export function toEpisodeSummary(episode: Episode): EpisodeSummary {
+  const { transcript: _transcript, ...summary } = episode;
+  return summary;
+}
+
+/*
+ * In-memory counterparts of the database query, for data sources that hold
+ * the whole catalog (fixtures)
+ */
+
+export function matchesEpisodeQuery(episode: Episode, query: EpisodeQuery): boolean {
+  if (query.category && episode.category?.toLowerCase() !== query.category.toLowerCase()) {
+    return false;
+  }
+  if (query.tag) {
+    const tag = slugify(query.tag);
+    if (!episode.tags?.some((t) => slugify(t) === tag)) {
+      return false;
+    }
+  }
+  if (query.host && episode.host?.toLowerCase() !== query.host.toLowerCase()) {
+    return false;
+  }
+  const createdAt = Date.parse(episode.createdAt);
+  if (query.from && createdAt < Date.parse(query.from)) {
+    return false;
+  }
+  if (query.to && createdAt > Date.parse(query.to)) {
+    return false;
+  }
+  return true;
+}
+
+export function compareEpisodes(sort: EpisodeSort): (a: Pick<Episode, 'createdAt' | 'id'>, b: Pick<Episode, 'createdAt' | 'id'>) => number {
+  // 'popular' is ranked by lib/popularity.ts; here it means newest first
+  const direction = sort === 'oldest' ? 1 : -1;
+  return (a, b) => {
+    const byDate = Date.parse(a.createdAt) - Date.parse(b.createdAt);
+    if (byDate !== 0) {
+      return byDate * direction;
+    }
+    return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) * direction;
+  };
+}
+
+// Applies filters, ordering and the cursor to a full list of episodes
+export function pageEpisodes(episodes: Episode[], query: EpisodeQuery): EpisodePage {
+  const compare = compareEpisodes(query.sort);
+  const matching = episodes
+    .filter((episode) => matchesEpisodeQuery(episode, query))
+    .sort(compare);
+
+  const cursor = query.cursor;
+  const remaining = cursor ? matching.filter((episode) => compare(episode, cursor) > 0) : matching;
+
+  return {
+    episodes: remaining.slice(0, query.limit),
+    total: matching.length,
+    hasMore: remaining.length > query.limit,
+  };
+}
@@ -0,0 +1,264 @@
+import { logger } from './log.js';
+import type { Chapter, Episode } from './types.js';
+
+/**
+ * A row of the `episodes` table as Supabase returns it (and as the fixture
+ * catalog stores it). Older rows still use the legacy column names listed in
+ * LEGACY_COLUMNS; they are read as a fallback and reported by the validator.
+ * Rows arrive unvalidated, so this names the columns the validator may read
+ * rather than typing its input.
+ */
+interface EpisodeRow {
+  id: string;
+  title: string;
+  excerpt: string | null;
+  description: string | null;
+  cover_url: string | null;
+  created_at: string;
+  category: string | null;
+  status: string;
+  duration: number | string | null;
+  audio_url: string | null;
+  transcript: string | null;
+  host: string | null;
+  episode_number: number | string | null;
+  tags: string[] | null;
+  // jsonb array of { startTime, title, img?, url? }
+  chapters: unknown;
+  // Legacy columns
+  full_description?: string | null;
+  length?: number | string | null;
+  audio?: string | null;
+  author?: string | null;
+  number?: number | string | null;
+}
+
+type Column = keyof EpisodeRow;
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface RowIssue {
+  field: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface RowValidation {
+  // null when the row was rejected (at least one error)
+  episode: Episode | null;
+  issues: RowIssue[];
+}
+
+// Canonical column -> legacy column that older rows use instead
+export const LEGACY_COLUMNS = {
+  description: 'full_description',
+  duration: 'length',
+  audio_url: 'audio',
+  host: 'author',
+  episode_number: 'number',
+} as const satisfies Partial<Record<Column, Column>>;
+
+// Columns that may be empty, but leave a visibly incomplete card when they are
+const RECOMMENDED_COLUMNS = ['excerpt', 'cover_url', 'category', 'audio_url', 'duration'] as const satisfies readonly Column[];
+
+type Row = Record<string, unknown>;
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// Reads a canonical column, falling back to its legacy name
+function readColumn(row: Row, column: Column, issues: RowIssue[]): unknown {
+  if (!isMissing(row[column])) {
+    return row[column];
+  }
+  const legacy = LEGACY_COLUMNS[column as keyof typeof LEGACY_COLUMNS];
+  if (legacy && !isMissing(row[legacy])) {
+    issues.push({
+      field: column,
+      severity: 'warning',
+      message: `Uses legacy column "${legacy}"`,
+    });
+    return row[legacy];
+  }
+  return null;
+}
+
+function readString(row: Row, column: Column, issues: RowIssue[]): string | null {
+  const value = readColumn(row, column, issues);
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    issues.push({ field: column, severity: 'warning', message: `Expected text, got ${typeof value}` });
+    return null;
+  }
+  return value;
+}
+
+function readNonNegativeNumber(
+  row: Row,
+  column: Column,
+  issues: RowIssue[],
+  integer: boolean
+): number | null {
+  const value = readColumn(row, column, issues);
+  if (value === null) {
+    return null;
+  }
+  const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+    issues.push({
+      field: column,
+      severity: 'warning',
+      message: `Expected a non-negative ${integer ? 'integer' : 'number'}, got ${JSON.stringify(value)}`,
+    });
+    return null;
+  }
+  return parsed;
+}
+
+function readTags(row: Row, issues: RowIssue[]): string[] | null {
+  const value = row.tags;
+  if (isMissing(value)) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ field: 'tags', severity: 'warning', message: `Expected an array of tags, got ${typeof value}` });
+    return null;
+  }
+  const tags = value.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '');
+  if (tags.length !== value.length) {
+    issues.push({ field: 'tags', severity: 'warning', message: 'Contains empty or non-text tags' });
+  }
+  return tags.map((tag) => tag.trim());
+}
+
+function isLink(value: unknown): value is string {
+  return typeof value === 'string' && /^(https?:\/\/|\/)\S+$/.test(value.trim());
+}
+
+// Reads chapters, dropping malformed entries and keeping the rest in time order
+function readChapters(row: Row, duration: number | null, issues: RowIssue[]): Chapter[] | null {
+  const value = row.chapters;
+  if (isMissing(value)) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ field: 'chapters', severity: 'warning', message: `Expected an array of chapters, got ${typeof value}` });
+    return null;
+  }
+
+  const chapters: Chapter[] = [];
+  value.forEach((entry, index) => {
+    const item = (entry && typeof entry === 'object' ? entry : {}) as Row;
+    const startTime = typeof item.startTime === 'string' ? Number(item.startTime) : item.startTime;
+    if (typeof startTime !== 'number' || !Number.isFinite(startTime) || startTime < 0 || isMissing(item.title) || typeof item.title !== 'string') {
+      issues.push({ field: 'chapters', severity: 'warning', message: `Chapter ${index + 1} needs a startTime and a title` });
+      return;
+    }
+    if (duration !== null && startTime >= duration) {
+      issues.push({ field: 'chapters', severity: 'warning', message: `Chapter ${index + 1} starts after the episode ends` });
+    }
+    for (const link of ['img', 'url'] as const) {
+      if (!isMissing(item[link]) && !isLink(item[link])) {
+        issues.push({ field: 'chapters', severity: 'warning', message: `Chapter ${index + 1} has an invalid ${link}` });
+      }
+    }
+    chapters.push({
+      startTime,
+      title: item.title.trim(),
+      ...(isLink(item.img) && { img: item.img.trim() }),
+      ...(isLink(item.url) && { url: item.url.trim() }),
+    });
+  });
+
+  return chapters.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Validates a raw row and maps it to an Episode. Rows without an id, a title
+ * or a parseable created_at are rejected; invalid optional fields are nulled
+ * and reported.
+ */
+export function validateEpisodeRow(raw: unknown): RowValidation {
+  const issues: RowIssue[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      episode: null,
+      issues: [{ field: 'row', severity: 'error', message: 'Row is not an object' }],
+    };
+  }
+  const row = raw as Row;
+
+  const id = row.id;
+  if (isMissing(id) || (typeof id !== 'string' && typeof id !== 'number')) {
+    issues.push({ field: 'id', severity: 'error', message: 'Missing id' });
+  }
+
+  const title = row.title;
+  if (isMissing(title) || typeof title !== 'string') {
+    issues.push({ field: 'title', severity: 'error', message: 'Missing title' });
+  }
+
+  const createdAt = row.created_at;
+  if (isMissing(createdAt)) {
+    issues.push({ field: 'created_at', severity: 'error', message: 'Missing created_at' });
+  } else if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) {
+    issues.push({
+      field: 'created_at',
+      severity: 'error',
+      message: `Unparseable date ${JSON.stringify(createdAt)}`,
+    });
+  }
+
+  for (const column of RECOMMENDED_COLUMNS) {
+    const legacy = LEGACY_COLUMNS[column as keyof typeof LEGACY_COLUMNS];
+    if (isMissing(row[column]) && (!legacy || isMissing(row[legacy]))) {
+      issues.push({ field: column, severity: 'warning', message: `Missing ${column}` });
+    }
+  }
+
+  const duration = readNonNegativeNumber(row, 'duration', issues, false);
+
+  const episode: Episode = {
+    id: String(id),
+    title: typeof title === 'string' ? title.trim() : '',
+    description: readString(row, 'excerpt', issues),
+    coverImage: readString(row, 'cover_url', issues),
+    createdAt: typeof createdAt === 'string' ? createdAt : '',
+    category: readString(row, 'category', issues),
+    duration,
+    audioUrl: readString(row, 'audio_url', issues),
+    transcript: readString(row, 'transcript', issues),
+    host: readString(row, 'host', issues),
+    episodeNumber: readNonNegativeNumber(row, 'episode_number', issues, true),
+    tags: readTags(row, issues),
+    fullDescription: readString(row, 'description', issues),
+    chapters: readChapters(row, duration, issues),
+  };
+
+  const rejected = issues.some((issue) => issue.severity === 'error');
+  return { episode: rejected ? null : episode, issues };
+}
+
+// Maps a raw row to an Episode, or null (with a logged reason) when it is rejected
+export function mapEpisodeRow(raw: unknown): Episode | null {
+  const { episode, issues } = validateEpisodeRow(raw);
+  if (!episode) {
+    const id = raw && typeof raw === 'object' ? (raw as Row).id : undefined;
+    logger.warn('Skipping malformed episode row', {
+      id: id ?? null,
+      issues: issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message),
+    });
+  }
+  return episode;
+}
+
+// Maps raw rows, dropping the ones that are rejected
+export function mapEpisodeRows(rows: unknown[]): Episode[] {
+  return rows
+    .map(mapEpisodeRow)
+    .filter((episode): episode is Episode => episode !== null);
+}
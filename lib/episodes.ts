@@ -0,0 +1,124 @@
+import { cached, type CacheOptions } from './cache.js';
+import { getDataSource } from './data-source.js';
+import { matchesEpisodeQuery, parseEpisodeQuery, type EpisodePage, type EpisodeQuery } from './episode-query.js';
+import { DAY_MS, rankByPopularity, SCORE_WINDOW_DAYS } from './popularity.js';
+import { findRelatedEpisodes, type RelatedEpisode } from './related.js';
+import { buildSearchIndex, type SearchIndex } from './search.js';
+import { slugify } from './slug.js';
+import type { EngagementEvent, Episode } from './types.js';
+
+export type { RelatedEpisode } from './related.js';
+export type { Episode, EpisodeSummary, EngagementEvent, EngagementType, ApiResponse, Pagination } from './types.js';
+
+// Catalog reads are cached per instance; results are shared and read-only
+const CATALOG_CACHE: CacheOptions = { ttlMs: 60_000, staleMs: 10 * 60_000 };
+// Single-episode lookups remember "not found" briefly, so a new episode shows up quickly
+const LOOKUP_CACHE: CacheOptions = { ...CATALOG_CACHE, nullTtlMs: 5_000 };
+// Popularity scores are recomputed at most every five minutes per instance
+const SCORES_CACHE: CacheOptions = { ttlMs: 5 * 60_000, staleMs: 30 * 60_000 };
+
+// Related episodes are ranked once per episode and sliced per request
+export const MAX_RELATED_EPISODES = 20;
+
+// Episodes the client loads per page of a listing
+export const LISTING_PAGE_SIZE = 48;
+
+export type ListingFilters = Partial<Pick<EpisodeQuery, 'sort' | 'category' | 'tag' | 'host'>>;
+
+// Fetch functions
+export async function fetchEpisodes(): Promise<Episode[]> {
+  return cached('episodes:all', () => getDataSource().listEpisodes(), CATALOG_CACHE);
+}
+
+// Every spelling of a tag in the catalog, e.g. "New York" and "new york" for "new-york"
+async function fetchTagNames(tag: string): Promise<string[]> {
+  const slug = slugify(tag);
+  const names = new Set<string>();
+  for (const episode of await fetchEpisodes()) {
+    for (const name of episode.tags || []) {
+      if (slugify(name) === slug) {
+        names.add(name);
+      }
+    }
+  }
+  return [...names];
+}
+
+export async function queryEpisodes(query: EpisodeQuery): Promise<EpisodePage> {
+  if (query.sort !== 'popular') {
+    return cached(
+      `episodes:query:${JSON.stringify(query)}`,
+      async () => getDataSource().queryEpisodes(
+        query.tag ? { ...query, tagNames: await fetchTagNames(query.tag) } : query
+      ),
+      CATALOG_CACHE
+    );
+  }
+
+  // Scores live outside the episodes table, so rank the matching episodes here
+  const [episodes, scores] = await Promise.all([fetchEpisodes(), fetchPopularityScores()]);
+  const ranked = rankByPopularity(
+    episodes.filter((episode) => matchesEpisodeQuery(episode, query)),
+    scores
+  );
+  const end = query.offset + query.limit;
+
+  return {
+    episodes: ranked.slice(query.offset, end),
+    total: ranked.length,
+    hasMore: ranked.length > end,
+  };
+}
+
+// First page of a listing, as the client would load it
+export async function fetchListingPage(filters: ListingFilters): Promise<EpisodePage> {
+  return queryEpisodes({ ...parseEpisodeQuery({ limit: String(LISTING_PAGE_SIZE) }), ...filters });
+}
+
+export async function fetchEpisodeById(id: string): Promise<Episode | null> {
+  return cached(`episodes:id:${id}`, () => getDataSource().getEpisode(id), LOOKUP_CACHE);
+}
+
+export async function fetchCategories(): Promise<string[]> {
+  return cached('categories', () => getDataSource().listCategories(), CATALOG_CACHE);
+}
+
+// `category` null means the most recent episode overall
+export async function fetchMostRecentEpisodeByCategory(category: string | null): Promise<Episode | null> {
+  return cached(
+    `episodes:latest:${category ?? ''}`,
+    () => getDataSource().getMostRecentEpisode(category ?? undefined),
+    LOOKUP_CACHE
+  );
+}
+
+export async function fetchMostPopularEpisode(): Promise<Episode | null> {
+  const [episodes, scores] = await Promise.all([fetchEpisodes(), fetchPopularityScores()]);
+  return rankByPopularity(episodes, scores)[0] || null;
+}
+
+export async function fetchRelatedEpisodes(episode: Episode, limit: number): Promise<RelatedEpisode[]> {
+  const related = await cached(
+    `episodes:related:${episode.id}`,
+    async () => findRelatedEpisodes(episode, await fetchEpisodes(), MAX_RELATED_EPISODES),
+    CATALOG_CACHE
+  );
+  return related.slice(0, limit);
+}
+
+// The catalog's search index, built once per cache period like the catalog rather than per search
+export async function fetchSearchIndex(): Promise<SearchIndex> {
+  return cached('episodes:search-index', async () => buildSearchIndex(await fetchEpisodes()), CATALOG_CACHE);
+}
+
+// Current popularity score per episode with recent engagement
+export async function fetchPopularityScores(): Promise<Map<string, number>> {
+  return cached('popularity:scores', () => {
+    const since = new Date(Date.now() - SCORE_WINDOW_DAYS * DAY_MS).toISOString();
+    return getDataSource().getPopularityScores(since);
+  }, SCORES_CACHE);
+}
+
+export async function recordEngagementEvent(event: EngagementEvent): Promise<void> {
+  return getDataSource().recordEngagementEvent(event);
+}
@@ -0,0 +1,217 @@
+import type { Category } from './categories.js';
+import { absoluteUrl } from './page-template.js';
+import { audioMimeType } from './podcast-feed.js';
+import type { Tag } from './tags.js';
+import type { EpisodeSummary } from './types.js';
+import { cdata, escapeXml } from './xml.js';
+
+export type FeedFormat = 'json' | 'atom';
+
+export const FEED_FORMATS: FeedFormat[] = ['json', 'atom'];
+
+// Stories per feed; readers only need what is new since their last poll
+export const FEED_SIZE = 50;
+
+const SITE_TITLE = 'Angle';
+const SITE_DESCRIPTION = 'Stories worth listening.';
+
+// What a feed covers: the whole catalog, a category or filter, or a tag
+export type FeedScope =
+  | { kind: 'all' }
+  | { kind: 'category'; category: Category }
+  | { kind: 'tag'; tag: Tag };
+
+export interface FeedOptions {
+  baseUrl: string;
+  scope: FeedScope;
+  episodes: EpisodeSummary[];
+}
+
+const FEED_FILES: Record<FeedFormat, string> = {
+  json: 'feed.json',
+  atom: 'atom.xml',
+};
+
+// Page the feed mirrors, e.g. '' for home, '/science' or '/tag/climate'
+function scopePath(scope: FeedScope): string {
+  switch (scope.kind) {
+    case 'all':
+      return '';
+    case 'category':
+      return `/${scope.category.slug}`;
+    case 'tag':
+      return `/tag/${scope.tag.slug}`;
+  }
+}
+
+export function feedPath(format: FeedFormat, scope: FeedScope): string {
+  return `${scopePath(scope)}/${FEED_FILES[format]}`;
+}
+
+// Square artwork for the scope, as JSON Feed wants for `icon`
+function feedIconUrl(baseUrl: string, scope: FeedScope): string {
+  switch (scope.kind) {
+    case 'all':
+      return `${baseUrl}/api/og-image?format=square`;
+    case 'category':
+      return `${baseUrl}/api/og-image/category/${scope.category.slug}?format=square`;
+    case 'tag':
+      return `${baseUrl}/api/og-image/tag/${scope.tag.slug}?format=square`;
+  }
+}
+
+function feedTitle(scope: FeedScope): string {
+  switch (scope.kind) {
+    case 'all':
+      return SITE_TITLE;
+    case 'category':
+      return `${SITE_TITLE}: ${scope.category.name}`;
+    case 'tag':
+      return `${SITE_TITLE}: #${scope.tag.name}`;
+  }
+}
+
+function feedDescription(scope: FeedScope): string {
+  switch (scope.kind) {
+    case 'all':
+      return SITE_DESCRIPTION;
+    case 'category':
+      return scope.category.description;
+    case 'tag':
+      return `Stories tagged #${scope.tag.name}, worth listening.`;
+  }
+}
+
+// Episodes carry no edit time, so a feed changes when its newest story is published
+function feedUpdated(episodes: EpisodeSummary[]): string {
+  const newest = Math.max(0, ...episodes.map((episode) => Date.parse(episode.createdAt)));
+  return new Date(newest).toISOString();
+}
+
+// Stable across domains, unlike the episode URL
+function entryId(episode: EpisodeSummary, baseUrl: string): string {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(episode.id)
+    ? `urn:uuid:${episode.id.toLowerCase()}`
+    : `${baseUrl}/episode/${episode.id}`;
+}
+
+function imageMimeType(url: string): string {
+  const extension = new URL(url, 'http://localhost').pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'png':
+    case 'gif':
+    case 'webp':
+    case 'avif':
+      return `image/${extension}`;
+    default:
+      return 'image/jpeg';
+  }
+}
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+export function buildJsonFeed({ baseUrl, scope, episodes }: FeedOptions): object {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feedTitle(scope),
+    home_page_url: `${baseUrl}${scopePath(scope) || '/'}`,
+    feed_url: `${baseUrl}${feedPath('json', scope)}`,
+    description: feedDescription(scope),
+    icon: feedIconUrl(baseUrl, scope),
+    favicon: `${baseUrl}/images/icon.webp`,
+    language: 'en',
+    authors: [{ name: SITE_TITLE, url: `${baseUrl}/` }],
+    items: episodes.map((episode) => {
+      const url = `${baseUrl}/episode/${episode.id}`;
+      return {
+        id: entryId(episode, baseUrl),
+        url,
+        title: episode.title,
+        content_text: episode.fullDescription || episode.description || episode.title,
+        ...(episode.description && { summary: episode.description }),
+        ...(episode.coverImage && { image: absoluteUrl(baseUrl, episode.coverImage) }),
+        date_published: new Date(episode.createdAt).toISOString(),
+        date_modified: new Date(episode.createdAt).toISOString(),
+        ...(episode.host && { authors: [{ name: episode.host }] }),
+        tags: [episode.category, ...(episode.tags || [])].filter((tag): tag is string => !!tag),
+        ...(episode.audioUrl && {
+          attachments: [{
+            url: absoluteUrl(baseUrl, episode.audioUrl),
+            mime_type: audioMimeType(episode.audioUrl),
+            title: episode.title,
+            ...(episode.duration && { duration_in_seconds: Math.round(episode.duration) }),
+          }],
+        }),
+      };
+    }),
+  };
+}
+
+function renderAtomEntry(episode: EpisodeSummary, baseUrl: string): string {
+  const url = `${baseUrl}/episode/${episode.id}`;
+  const published = new Date(episode.createdAt).toISOString();
+  const coverImage = episode.coverImage ? absoluteUrl(baseUrl, episode.coverImage) : null;
+  const body = escapeXml(episode.fullDescription || episode.description || '');
+  const content = coverImage
+    ? `<p><img src="${escapeXml(coverImage)}" alt=""></p><p>${body}</p>`
+    : `<p>${body}</p>`;
+
+  const lines = [
+    `<id>${escapeXml(entryId(episode, baseUrl))}</id>`,
+    `<title>${escapeXml(episode.title)}</title>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(url)}"/>`,
+    `<published>${published}</published>`,
+    `<updated>${published}</updated>`,
+    `<author><name>${escapeXml(episode.host || SITE_TITLE)}</name></author>`,
+  ];
+
+  if (episode.description) {
+    lines.push(`<summary>${escapeXml(episode.description)}</summary>`);
+  }
+  lines.push(`<content type="html">${cdata(content)}</content>`);
+  if (episode.category) {
+    lines.push(`<category term="${escapeXml(episode.category)}"/>`);
+  }
+  for (const tag of episode.tags || []) {
+    lines.push(`<category term="${escapeXml(tag)}"/>`);
+  }
+  if (episode.audioUrl) {
+    // Audio size is not stored; Atom allows omitting the length
+    lines.push(
+      `<link rel="enclosure" type="${audioMimeType(episode.audioUrl)}" href="${escapeXml(absoluteUrl(baseUrl, episode.audioUrl))}"/>`
+    );
+  }
+  if (coverImage) {
+    lines.push(`<media:thumbnail url="${escapeXml(coverImage)}"/>`);
+    lines.push(`<link rel="enclosure" type="${imageMimeType(coverImage)}" href="${escapeXml(coverImage)}"/>`);
+  }
+
+  return `  <entry>\n${lines.map((line) => `    ${line}`).join('\n')}\n  </entry>`;
+}
+
+// Atom 1.0 (RFC 4287), with cover art as Media RSS thumbnails
+export function buildAtomFeed({ baseUrl, scope, episodes }: FeedOptions): string {
+  const homeUrl = `${baseUrl}${scopePath(scope) || '/'}`;
+  const feedUrl = `${baseUrl}${feedPath('atom', scope)}`;
+
+  const head = [
+    `<id>${escapeXml(feedUrl)}</id>`,
+    `<title>${escapeXml(feedTitle(scope))}</title>`,
+    `<subtitle>${escapeXml(feedDescription(scope))}</subtitle>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(homeUrl)}"/>`,
+    `<updated>${feedUpdated(episodes)}</updated>`,
+    `<author><name>${SITE_TITLE}</name><uri>${escapeXml(`${baseUrl}/`)}</uri></author>`,
+    `<icon>${escapeXml(`${baseUrl}/images/icon.webp`)}</icon>`,
+    `<logo>${escapeXml(`${baseUrl}/api/og-image`)}</logo>`,
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xml:lang="en">
+${head.map((line) => `  ${line}`).join('\n')}
+${episodes.map((episode) => renderAtomEntry(episode, baseUrl)).join('\n')}
+</feed>
+`;
+}
@@ -0,0 +1,131 @@
+import { readFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import type { EpisodeDataSource } from './data-source.js';
+import { mapEpisodeRows } from './episode-row.js';
+import { pageEpisodes } from './episode-query.js';
+import { logger } from './log.js';
+import { computePopularityScores } from './popularity.js';
+import type { EngagementEvent, Episode } from './types.js';
+
+// Parses a fixture file holding rows of the `episodes` table, either as a
+// JSON array or as newline-delimited JSON (one row per line)
+export function parseFixture(content: string, path: string): unknown[] {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  if (trimmed.startsWith('[')) {
+    const rows = JSON.parse(trimmed);
+    if (!Array.isArray(rows)) {
+      throw new Error(`Fixture ${path} must contain a JSON array of rows`);
+    }
+    return rows;
+  }
+
+  return trimmed
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Fixture ${path} line ${index + 1}: ${(error as Error).message}`);
+      }
+    });
+}
+
+function isCompleted(row: unknown): boolean {
+  return !!row && typeof row === 'object' && (row as { status?: unknown }).status === 'completed';
+}
+
+export function createFixtureDataSource(path: string): EpisodeDataSource {
+  const fixturePath = isAbsolute(path) ? path : join(process.cwd(), path);
+  // Engagement is kept in memory only; it resets when the process restarts
+  const events: EngagementEvent[] = [];
+  const dedupeKeys = new Set<string>();
+  let rowsPromise: Promise<unknown[]> | null = null;
+  let episodesPromise: Promise<Episode[]> | null = null;
+
+  // Loads the fixture once, keeping only completed episodes
+  const loadRows = (): Promise<unknown[]> => {
+    if (!rowsPromise) {
+      rowsPromise = readFile(fixturePath, 'utf-8')
+        .then((content) => parseFixture(content, fixturePath))
+        .then((rows) => rows.filter((row) => isCompleted(row)))
+        .catch((error) => {
+          rowsPromise = null;
+          logger.error('Error loading fixture', { fixturePath, error });
+          throw error;
+        });
+    }
+    return rowsPromise;
+  };
+
+  // Valid episodes, newest first
+  const load = (): Promise<Episode[]> => {
+    if (!episodesPromise) {
+      episodesPromise = loadRows()
+        .then((rows) =>
+          mapEpisodeRows(rows).sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+        )
+        .catch((error) => {
+          episodesPromise = null;
+          throw error;
+        });
+    }
+    return episodesPromise;
+  };
+
+  return {
+    name: 'fixture',
+
+    async listEpisodeRows() {
+      return [...(await loadRows())];
+    },
+
+    async listEpisodes() {
+      return [...(await load())];
+    },
+
+    async queryEpisodes(query) {
+      return pageEpisodes(await load(), query);
+    },
+
+    async getEpisode(id) {
+      const episodes = await load();
+      return episodes.find((episode) => episode.id === id) || null;
+    },
+
+    async listCategories() {
+      const episodes = await load();
+      return [...new Set(episodes.map((e) => e.category))]
+        .filter((category): category is string => category !== null)
+        .sort();
+    },
+
+    async getMostRecentEpisode(category) {
+      const episodes = await load();
+      const episode = category
+        ? episodes.find((e) => e.category === category)
+        : episodes[0];
+      return episode || null;
+    },
+
+    async recordEngagementEvent(event) {
+      if (event.dedupeKey) {
+        if (dedupeKeys.has(event.dedupeKey)) {
+          return;
+        }
+        dedupeKeys.add(event.dedupeKey);
+      }
+      events.push({ ...event });
+    },
+
+    async getPopularityScores(since) {
+      const sinceTime = Date.parse(since);
+      return computePopularityScores(events.filter((event) => Date.parse(event.createdAt) >= sinceTime));
+    },
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Readiness checks: everything a page, feed or image needs besides the code.
+ * Each check runs with a time limit and reports how long it took, so a slow
+ * dependency shows up as a timing before it shows up as an outage.
+ */
+import { getConfig } from './config.js';
+import { getDataSource } from './data-source.js';
+import { logger } from './log.js';
+import { OG_ICON_PATH, readOgFonts, readPublicFile } from './og-assets.js';
+import { loadTemplateSlots } from './page-template.js';
+
+export type CheckStatus = 'ok' | 'fail';
+
+export interface CheckResult {
+  status: CheckStatus;
+  durationMs: number;
+  // What was found, e.g. the data source's name or the fonts loaded
+  detail?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: CheckStatus;
+  timestamp: string;
+  durationMs: number;
+  checks: Record<string, CheckResult>;
+}
+
+type Check = () => Promise<Record<string, unknown> | void>;
+
+// A check that has not answered by then counts as failed
+const CHECK_TIMEOUT_MS = 5_000;
+
+// The configuration's problems, all at once, when it is invalid
+function checkConfig(): Record<string, unknown> {
+  const { environment, siteUrl, allowedHosts, dataSource } = getConfig();
+  return { environment, siteUrl, allowedHosts, dataSource: dataSource.kind };
+}
+
+const CHECKS: Record<string, Check> = {
+  config: async () => checkConfig(),
+
+  // An uncached query, so this measures the data source and not the instance cache
+  dataSource: async () => {
+    const source = getDataSource();
+    const categories = await source.listCategories();
+    return { name: source.name, categories: categories.length };
+  },
+
+  template: async () => ({ slots: await loadTemplateSlots() }),
+
+  ogAssets: async () => {
+    const [fonts] = await Promise.all([readOgFonts(), readPublicFile(OG_ICON_PATH)]);
+    return { fonts: fonts.map((font) => font.name), icon: OG_ICON_PATH };
+  },
+};
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(name: string, check: Check): Promise<CheckResult> {
+  const start = performance.now();
+  try {
+    const detail = await withTimeout(check(), CHECK_TIMEOUT_MS);
+    return {
+      status: 'ok',
+      durationMs: Math.round(performance.now() - start),
+      ...(detail && { detail }),
+    };
+  } catch (error) {
+    logger.error('Readiness check failed', { check: name, error });
+    return {
+      status: 'fail',
+      durationMs: Math.round(performance.now() - start),
+      error: (error as Error).message,
+    };
+  }
+}
+
+// Runs every check in parallel; the report fails when any check does
+export async function runReadinessChecks(): Promise<ReadinessReport> {
+  const start = performance.now();
+  const results = await Promise.all(
+    Object.entries(CHECKS).map(async ([name, check]) => [name, await runCheck(name, check)] as const)
+  );
+  const checks = Object.fromEntries(results);
+
+  return {
+    status: results.every(([, result]) => result.status === 'ok') ? 'ok' : 'fail',
+    timestamp: new Date().toISOString(),
+    durationMs: Math.round(performance.now() - start),
+    checks,
+  };
+}
@@ -0,0 +1,52 @@
+import { fetchEpisodes } from './episodes.js';
+import { slugify } from './slug.js';
+import type { Episode } from './types.js';
+
+export interface Host {
+  slug: string;
+  name: string;
+  count: number;
+  latestEpisodeAt: string;
+}
+
+// Counts episodes per host, merging spellings that share a slug
+export function collectHosts(episodes: Episode[]): Host[] {
+  const bySlug = new Map<string, Host>();
+
+  for (const episode of episodes) {
+    const name = episode.host?.trim();
+    const slug = name ? slugify(name) : '';
+    if (!name || !slug) {
+      continue;
+    }
+
+    const host = bySlug.get(slug);
+    if (!host) {
+      bySlug.set(slug, { slug, name, count: 1, latestEpisodeAt: episode.createdAt });
+      continue;
+    }
+    host.count++;
+    if (Date.parse(episode.createdAt) > Date.parse(host.latestEpisodeAt)) {
+      host.latestEpisodeAt = episode.createdAt;
+    }
+  }
+
+  return [...bySlug.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Every host of a published episode, most prolific first
+export async function fetchHosts(): Promise<Host[]> {
+  return collectHosts(await fetchEpisodes());
+}
+
+// Finds a host by slug or by name
+export async function resolveHost(value: string): Promise<Host | null> {
+  const slug = slugify(value);
+  return (await fetchHosts()).find((host) => host.slug === slug) || null;
+}
+
+// Most recent episode by a host
+export async function fetchMostRecentEpisodeByHost(host: Host): Promise<Episode | null> {
+  const episodes = await fetchEpisodes();
+  return episodes.find((episode) => episode.host && slugify(episode.host) === host.slug) || null;
+}
@@ -0,0 +1,45 @@
+// Markup that is already safe to emit, e.g. the result of an html`` template
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | null | undefined | false | HtmlValue[];
+
+// Escapes text for HTML element content and attribute values
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+// Trusts markup as-is; only for strings built by our own code
+export function rawHtml(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value === null || value === undefined || value === false) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(renderValue).join('');
+  }
+  return value instanceof SafeHtml ? value.value : escapeHtml(String(value));
+}
+
+// Template tag that escapes every interpolated value unless it is SafeHtml;
+// arrays are joined and null, undefined and false render nothing
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  let result = strings[0];
+  values.forEach((value, index) => {
+    result += renderValue(value) + strings[index + 1];
+  });
+  return new SafeHtml(result);
+}
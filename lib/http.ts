@@ -0,0 +1,109 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getConfig } from './config.js';
+
+// Browsers revalidate after a minute; CDNs may serve stale while refreshing
+export const CATALOG_CACHE_CONTROL = 'public, max-age=60, s-maxage=60, stale-while-revalidate=600';
+
+export interface CacheableResponse {
+  body: string | Buffer;
+  contentType: string;
+  cacheControl: string;
+  // When the content last changed, from the data itself; without it only the ETag
+  // validates, since a time this instance made up would differ between instances
+  lastModified?: Date;
+}
+
+export function computeEtag(body: string | Buffer): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// Last-Modified for a list of episodes: they carry no edit time, so the newest
+// publication; undefined for an empty list
+export function newestCreatedAt(episodes: { createdAt: string }[]): Date | undefined {
+  const newest = Math.max(...episodes.map((episode) => Date.parse(episode.createdAt)).filter(Number.isFinite));
+  return Number.isFinite(newest) ? new Date(newest) : undefined;
+}
+
+function isNotModified(req: VercelRequest, etag: string, lastModified: Date | undefined): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    // If-None-Match takes precedence over If-Modified-Since
+    return ifNoneMatch === '*' || ifNoneMatch.split(',').some((tag) => {
+      const candidate = tag.trim();
+      return candidate === etag || `W/${candidate}` === etag;
+    });
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+/**
+ * Sends a 200 with ETag, Cache-Control and Last-Modified when known, or an empty 304
+ * when the request's conditional headers show the client already has it.
+ */
+export function sendCacheable(req: VercelRequest, res: VercelResponse, response: CacheableResponse): void {
+  const etag = computeEtag(response.body);
+
+  res.setHeader('ETag', etag);
+  if (response.lastModified) {
+    res.setHeader('Last-Modified', response.lastModified.toUTCString());
+  }
+  res.setHeader('Cache-Control', response.cacheControl);
+
+  if (isNotModified(req, etag, response.lastModified)) {
+    res.status(304).end();
+    return;
+  }
+
+  res.setHeader('Content-Type', response.contentType);
+  res.status(200).end(response.body);
+}
+
+// JSON variant of sendCacheable for the catalog endpoints
+export function sendCacheableJson(
+  req: VercelRequest,
+  res: VercelResponse,
+  data: unknown,
+  cacheControl: string = CATALOG_CACHE_CONTROL
+): void {
+  sendCacheable(req, res, {
+    body: JSON.stringify(data),
+    contentType: 'application/json; charset=utf-8',
+    cacheControl,
+  });
+}
+
+// Compares in constant time so the token cannot be guessed byte by byte
+function hasToken(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Guards an operator endpoint with a bearer token. Without a token the
+ * endpoint is open, except in production, where it fails closed with a 404.
+ * Returns false once it has answered the request.
+ */
+export function authorizeBearer(req: VercelRequest, res: VercelResponse, token: string | null): boolean {
+  if (!token) {
+    if (getConfig().environment === 'production') {
+      res.status(404).json({ success: false, error: 'Not found' });
+      return false;
+    }
+    return true;
+  }
+  if (!hasToken(req.headers.authorization, token)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ success: false, error: 'Unauthorized' });
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import type { EpisodeDataSource } from './data-source.js';
+import { currentRequest, logger, redactUrl, runWithRequest } from './log.js';
+import { recordDataSourceCall, recordRequest } from './metrics.js';
+
+type Handler = (req: VercelRequest, res: VercelResponse) => void | Promise<void>;
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs callers may choose for themselves; anything else is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// The caller's ID when it sent a usable one, then Vercel's, then a fresh one
+function requestIdFor(req: VercelRequest): string {
+  for (const header of ['x-request-id', 'x-vercel-id']) {
+    const value = req.headers[header];
+    if (typeof value === 'string' && REQUEST_ID_PATTERN.test(value)) {
+      return value;
+    }
+  }
+  return randomUUID();
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Wraps a function's handler to give the request an ID (returned in
+ * X-Request-Id and added to every log line it writes), log it once it is
+ * done, and count it in /api/metrics under `route`.
+ */
+export function instrumentHandler(route: string, handler: Handler): Handler {
+  return async (req, res) => {
+    const requestId = requestIdFor(req);
+    const start = performance.now();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    await runWithRequest({ requestId, route }, async () => {
+      try {
+        await handler(req, res);
+      } catch (error) {
+        logger.error('Unhandled error', { error });
+        if (!res.headersSent) {
+          res.status(500).json({ success: false, error: 'Internal server error' });
+        }
+      } finally {
+        const seconds = (performance.now() - start) / 1000;
+        const method = req.method || 'GET';
+        recordRequest(route, method, res.statusCode, seconds);
+        logger.info('Request handled', {
+          method,
+          url: redactUrl(req.url || ''),
+          status: res.statusCode,
+          durationMs: Math.round(seconds * 1000),
+          // Pages link their OG images and embeds, so this ties those requests to the page
+          referer: redactUrl(headerValue(req.headers.referer) || '') || undefined,
+          userAgent: headerValue(req.headers['user-agent']),
+        });
+      }
+    });
+  };
+}
+
+// Times every data-source call for /api/metrics, labelled with the route that made it
+export function instrumentDataSource(source: EpisodeDataSource): EpisodeDataSource {
+  const instrumented = { ...source };
+
+  for (const [operation, method] of Object.entries(source)) {
+    if (typeof method !== 'function') {
+      continue;
+    }
+    Object.assign(instrumented, {
+      [operation]: async (...args: unknown[]) => {
+        const start = performance.now();
+        const route = currentRequest()?.route ?? 'none';
+        let ok = false;
+        try {
+          const result = await method.apply(source, args);
+          ok = true;
+          return result;
+        } finally {
+          recordDataSourceCall(source.name, operation, route, (performance.now() - start) / 1000, ok);
+        }
+      },
+    });
+  }
+  return instrumented;
+}
@@ -0,0 +1,118 @@
+/**
+ * Structured logging: one JSON object per line with the time, level, message
+ * and the current request's ID and route, plus any fields passed in. Values
+ * under sensitive keys, and anything shaped like a credential, are redacted
+ * before they are written.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { getConfig, LOG_LEVELS, type LogLevel } from './config.js';
+
+export type { LogLevel };
+export type LogFields = Record<string, unknown>;
+
+export interface RequestContext {
+  requestId: string;
+  // Function path, e.g. /api/render/episode/[id]
+  route: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// The request being handled, for code that runs inside instrumentHandler
+export function currentRequest(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+export function runWithRequest<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+const REDACTED = '[redacted]';
+const SENSITIVE_KEY = /authorization|cookie|password|secret|token|api[-_]?key|anon[-_]?key|session/i;
+// JWTs (Supabase keys among them) and bearer credentials, wherever they appear in text
+const CREDENTIAL_PATTERN = /\beyJ[\w-]*\.[\w-]+\.[\w-]+|\bBearer\s+[\w.~+/-]+=*/gi;
+const MAX_DEPTH = 5;
+
+// Query parameters with sensitive names keep their name but lose their value
+export function redactUrl(url: string): string {
+  const index = url.indexOf('?');
+  if (index === -1) {
+    return url.replace(CREDENTIAL_PATTERN, REDACTED);
+  }
+  const params = new URLSearchParams(url.slice(index + 1));
+  for (const key of new Set(params.keys())) {
+    if (SENSITIVE_KEY.test(key)) {
+      params.set(key, REDACTED);
+    }
+  }
+  return `${url.slice(0, index)}?${params}`.replace(CREDENTIAL_PATTERN, REDACTED);
+}
+
+// A copy of `value` that is safe to log; errors become plain objects with their stack
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(CREDENTIAL_PATTERN, REDACTED);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (value instanceof Error) {
+    return redact({
+      // Supabase errors carry their details as own properties
+      ...value,
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(value.cause !== undefined && { cause: value.cause }),
+    }, depth + 1);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1),
+  ]));
+}
+
+// Logging still works when the configuration is invalid, so that can be reported
+function minimumLevel(): LogLevel {
+  try {
+    return getConfig().logLevel;
+  } catch {
+    return 'info';
+  }
+}
+
+export function log(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel())) {
+    return;
+  }
+
+  const context = currentRequest();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(context && { requestId: context.requestId, route: context.route }),
+    ...(redact(fields) as LogFields),
+  });
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => log('debug', message, fields),
+  info: (message: string, fields?: LogFields) => log('info', message, fields),
+  warn: (message: string, fields?: LogFields) => log('warn', message, fields),
+  error: (message: string, fields?: LogFields) => log('error', message, fields),
+};
@@ -0,0 +1,125 @@
+/**
+ * Request and data-source metrics in the Prometheus text format, served by
+ * /api/metrics. They live in memory, so each function instance reports its
+ * own numbers since it started.
+ *
+ * On Vercel that makes a scrape a sample, not a total: the scrape is answered
+ * by whichever instance Vercel picks, instances cannot be addressed one by
+ * one, and their counters vanish when they are recycled. Use the numbers for
+ * latency distributions and error ratios; for request totals, count the
+ * "Request handled" log lines (lib/instrument.ts) through a log drain.
+ */
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+  labels: Labels;
+  // Cumulative counts per bucket, in DURATION_BUCKETS order
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+interface MetricFamily {
+  help: string;
+  type: 'counter' | 'histogram';
+}
+
+// Seconds, from a cache hit to a slow OG render
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const FAMILIES: Record<string, MetricFamily> = {
+  angle_http_requests_total: { help: 'Requests handled, by route, method and status.', type: 'counter' },
+  angle_http_request_duration_seconds: { help: 'Time to handle a request, by route.', type: 'histogram' },
+  angle_data_source_calls_total: { help: 'Data source calls, by source, operation, route and outcome.', type: 'counter' },
+  angle_data_source_duration_seconds: { help: 'Time spent in the data source, by source, operation and route.', type: 'histogram' },
+};
+
+const counters = new Map<string, Map<string, { labels: Labels; value: number }>>();
+const histograms = new Map<string, Map<string, Histogram>>();
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function increment(name: string, labels: Labels): void {
+  const series = counters.get(name) ?? new Map();
+  counters.set(name, series);
+  const key = labelKey(labels);
+  const entry = series.get(key) ?? { labels, value: 0 };
+  entry.value++;
+  series.set(key, entry);
+}
+
+function observe(name: string, labels: Labels, seconds: number): void {
+  const series = histograms.get(name) ?? new Map<string, Histogram>();
+  histograms.set(name, series);
+  const key = labelKey(labels);
+  let histogram = series.get(key);
+  if (!histogram) {
+    histogram = { labels, buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    series.set(key, histogram);
+  }
+  DURATION_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) {
+      histogram.buckets[i]++;
+    }
+  });
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+export function recordRequest(route: string, method: string, status: number, seconds: number): void {
+  increment('angle_http_requests_total', { route, method, status: String(status) });
+  observe('angle_http_request_duration_seconds', { route }, seconds);
+}
+
+// `route` is the function that made the call, or "none" outside a request (scripts)
+export function recordDataSourceCall(
+  source: string,
+  operation: string,
+  route: string,
+  seconds: number,
+  ok: boolean
+): void {
+  increment('angle_data_source_calls_total', { source, operation, route, outcome: ok ? 'ok' : 'error' });
+  observe('angle_data_source_duration_seconds', { source, operation, route }, seconds);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Every metric in the Prometheus text exposition format (version 0.0.4)
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const [name, family] of Object.entries(FAMILIES)) {
+    lines.push(`# HELP ${name} ${family.help}`, `# TYPE ${name} ${family.type}`);
+
+    if (family.type === 'counter') {
+      for (const { labels, value } of counters.get(name)?.values() ?? []) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+      continue;
+    }
+
+    for (const { labels, buckets, sum, count } of histograms.get(name)?.values() ?? []) {
+      DURATION_BUCKETS.forEach((bound, i) => {
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      });
+      lines.push(
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
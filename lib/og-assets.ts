@@ -0,0 +1,102 @@
+import { readFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import sharp from 'sharp';
+import { fileURLToPath } from 'url';
+import { logger } from './log.js';
+
+// Get __dirname equivalent for ESM
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Cards without cover art show the Angle icon
+export const OG_ICON_PATH = '/images/icon.webp';
+
+// Brand fonts, as the site loads them from public/fonts. Passing fonts replaces
+// @vercel/og's built-in Noto Sans, so it is loaded too for descriptions.
+export const TITLE_FONT = 'LTT Recoletta';
+export const LABEL_FONT = 'Berkeley Mono';
+export const TEXT_FONT = 'Noto Sans';
+const FONT_FILES = [
+  { name: TITLE_FONT, path: '/fonts/LttRecoleta-CmpRegular.otf' },
+  { name: LABEL_FONT, path: '/fonts/BerkeleyMono-Regular.otf' },
+];
+const TEXT_FONT_PATH = join(
+  dirname(createRequire(import.meta.url).resolve('@vercel/og')),
+  'noto-sans-v27-latin-regular.ttf'
+);
+
+// Where public/ may live: locally or in the Vercel function bundle
+const PUBLIC_DIRS = [
+  join(process.cwd(), 'public'),
+  join(__dirname, '..', 'public'),
+];
+
+// A file under public/ by its site path, e.g. /fonts/BerkeleyMono-Regular.otf
+export async function readPublicFile(path: string): Promise<Buffer> {
+  let lastError: Error | null = null;
+
+  for (const dir of PUBLIC_DIRS) {
+    try {
+      return await readFile(join(dir, path));
+    } catch (error) {
+      lastError = error as Error;
+      // Try next path
+    }
+  }
+  throw lastError || new Error(`Could not find ${path}`);
+}
+
+export interface OgFont {
+  name: string;
+  data: Buffer;
+  weight: 400;
+  style: 'normal';
+}
+
+// Every font OG images use; throws when one cannot be read
+export async function readOgFonts(): Promise<OgFont[]> {
+  const fonts = await Promise.all([
+    ...FONT_FILES.map(async ({ name, path }) => ({ name, data: await readPublicFile(path) })),
+    readFile(TEXT_FONT_PATH).then((data) => ({ name: TEXT_FONT, data })),
+  ]);
+  return fonts.map((font) => ({ ...font, weight: 400, style: 'normal' }));
+}
+
+let fontsPromise: Promise<OgFont[] | undefined> | null = null;
+
+// Loaded once per instance; if they cannot be read, images use the built-in font
+export function loadOgFonts(): Promise<OgFont[] | undefined> {
+  fontsPromise ??= readOgFonts().catch((error) => {
+    logger.error('Error loading OG fonts', { error });
+    fontsPromise = null;
+    return undefined;
+  });
+  return fontsPromise;
+}
+
+// Formats the renderer decodes itself; anything else (the site's WebP art) is converted to PNG
+const DRAWABLE_FORMATS = new Set(['png', 'jpeg']);
+
+/**
+ * An image as a data URI the renderer draws without fetching anything: site
+ * paths are read from public/ and absolute URLs downloaded. Drawings then do
+ * not depend on which host served the request, or on there being one.
+ */
+export async function readOgImage(src: string): Promise<string> {
+  let data: Buffer;
+  if (/^https?:\/\//.test(src)) {
+    const response = await fetch(src);
+    if (!response.ok) {
+      throw new Error(`Fetching ${src} failed with ${response.status}`);
+    }
+    data = Buffer.from(await response.arrayBuffer());
+  } else {
+    data = await readPublicFile(src);
+  }
+
+  const { format } = await sharp(data).metadata();
+  if (!format || !DRAWABLE_FORMATS.has(format)) {
+    return `data:image/png;base64,${(await sharp(data).png().toBuffer()).toString('base64')}`;
+  }
+  return `data:image/${format};base64,${data.toString('base64')}`;
+}
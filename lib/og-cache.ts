@@ -0,0 +1,105 @@
+/**
+ * Storage for rendered OG images. A key names one version of one card at one
+ * format and theme, so stored images never go stale and are never rewritten:
+ * each version is drawn once per store instead of on every CDN miss.
+ */
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getConfig } from './config.js';
+import { logger } from './log.js';
+
+export interface OgImageStore {
+  name: string;
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, png: Buffer): Promise<void>;
+}
+
+// Keys are built from hashes and option names; anything else is refused
+const KEY_PATTERN = /^[\w-]+$/;
+
+function assertKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid OG image cache key "${key}"`);
+  }
+}
+
+// One PNG per key in a directory; writes go through a temp file so readers never see half an image
+export function createFileOgImageStore(dir: string): OgImageStore {
+  return {
+    name: `file:${dir}`,
+
+    async get(key) {
+      assertKey(key);
+      try {
+        return await readFile(join(dir, `${key}.png`));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async put(key, png) {
+      assertKey(key);
+      await mkdir(dir, { recursive: true });
+      const tempPath = join(dir, `${key}.${process.pid}.${Date.now()}.tmp`);
+      await writeFile(tempPath, png);
+      await rename(tempPath, join(dir, `${key}.png`));
+    },
+  };
+}
+
+// /tmp is the only writable directory on Vercel, so that is the default
+const DEFAULT_CACHE_DIR = join(tmpdir(), 'angle-og-images');
+
+let store: OgImageStore | null = null;
+
+// The store in the configured OG cache directory, or in the system temp directory
+export function getOgImageStore(): OgImageStore {
+  if (!store) {
+    store = createFileOgImageStore(getConfig().ogCacheDir || DEFAULT_CACHE_DIR);
+  }
+  return store;
+}
+
+// Overrides the configured store (scripts, local tooling)
+export function setOgImageStore(override: OgImageStore | null): void {
+  store = override;
+}
+
+const pending = new Map<string, Promise<Buffer>>();
+
+/**
+ * Returns the stored image for `key`, rendering and storing it when missing.
+ * Concurrent misses share one render. A store that fails to read or write is
+ * logged and skipped, so a broken cache never breaks the image.
+ */
+export function cachedOgImage(key: string, render: () => Promise<Buffer>): Promise<Buffer> {
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const imageStore = getOgImageStore();
+  const promise = (async () => {
+    const stored = await imageStore.get(key).catch((error) => {
+      logger.error('Error reading OG image', { key, store: imageStore.name, error });
+      return null;
+    });
+    if (stored) {
+      return stored;
+    }
+
+    const png = await render();
+    await imageStore.put(key, png).catch((error) => {
+      logger.error('Error storing OG image', { key, store: imageStore.name, error });
+    });
+    return png;
+  })().finally(() => {
+    pending.delete(key);
+  });
+  pending.set(key, promise);
+  return promise;
+}
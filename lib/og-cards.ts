@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import type { Category } from './categories.js';
+import { getConfig } from './config.js';
+import { fetchMostPopularEpisode, fetchMostRecentEpisodeByCategory } from './episodes.js';
+import { fetchMostRecentEpisodeByTag, type Tag } from './tags.js';
+import type { Episode } from './types.js';
+
+/**
+ * What an OG image shows, kept apart from how lib/og-design.tsx draws it so
+ * page renderers can version image URLs without loading the image renderer.
+ */
+export interface OgCard {
+  // Absolute or site-relative cover art; without it the card shows the Angle icon
+  image?: string | null;
+  label?: string;
+  // Label background, e.g. a category's color; the theme's neutral tag otherwise
+  labelColor?: string;
+  title: string;
+  description?: string;
+}
+
+// Bump when lib/og-design.tsx draws cards differently, so every image URL changes
+const OG_LAYOUT_VERSION = 2;
+
+const SITE_CARD: OgCard = { title: 'Angle', description: 'Stories worth listening.' };
+
+export function homeOgCard(): OgCard {
+  return SITE_CARD;
+}
+
+export function episodeOgCard(episode: Episode): OgCard {
+  return {
+    image: episode.coverImage,
+    label: episode.category || undefined,
+    title: episode.title,
+    description: episode.fullDescription || episode.description || undefined,
+  };
+}
+
+// The most popular episode's cover for /popular, the most recent one's otherwise;
+// the site card with the category label when there is none
+export async function categoryOgCard(category: Category): Promise<OgCard> {
+  const episode = category.slug === 'popular'
+    ? await fetchMostPopularEpisode()
+    : await fetchMostRecentEpisodeByCategory(category.kind === 'category' ? category.name : null);
+
+  return {
+    ...(episode?.coverImage
+      ? { image: episode.coverImage, title: `${category.name} Stories`, description: category.description }
+      : SITE_CARD),
+    label: category.name,
+    // Categories carry their accent color; special filters keep the neutral tag
+    labelColor: category.kind === 'category' ? category.color : undefined,
+  };
+}
+
+// The most recent tagged episode's cover, or the site card with the tag label
+export async function tagOgCard(tag: Tag): Promise<OgCard> {
+  const episode = await fetchMostRecentEpisodeByTag(tag);
+  const label = `#${tag.name}`;
+
+  return {
+    ...(episode?.coverImage
+      ? {
+          image: episode.coverImage,
+          title: `${label} Stories`,
+          description: `${tag.count} ${tag.count === 1 ? 'story' : 'stories'} worth listening.`,
+        }
+      : SITE_CARD),
+    label,
+  };
+}
+
+// Short hash of everything the card renders
+export function ogCardVersion(card: OgCard): string {
+  const fields = [OG_LAYOUT_VERSION, card.image, card.label, card.labelColor, card.title, card.description];
+  return createHash('sha1').update(JSON.stringify(fields)).digest('base64url').slice(0, 12);
+}
+
+// Where the static export writes the site card: /api/og-image is the directory
+// of the other cards there, and static hosts ignore the ?v= query
+export const MIRROR_HOME_OG_IMAGE = '/api/og-image/home.png';
+
+// Path of the site card's image, for ogImageUrl
+export function homeOgImagePath(): string {
+  return getConfig().staticMirror ? MIRROR_HOME_OG_IMAGE : '/api/og-image';
+}
+
+// Image URL for a card, e.g. ogImageUrl(baseUrl, `/api/og-image/${id}`, card).
+// The version makes the URL change with the content, so it can be cached forever.
+export function ogImageUrl(baseUrl: string, path: string, card: OgCard): string {
+  return `${baseUrl}${path}?v=${ogCardVersion(card)}`;
+}
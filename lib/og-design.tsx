@@ -0,0 +1,241 @@
+import { ImageResponse } from '@vercel/og';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { CATALOG_CACHE_CONTROL } from './http.js';
+import { logger } from './log.js';
+import { LABEL_FONT, loadOgFonts, OG_ICON_PATH, readOgImage, TEXT_FONT, TITLE_FONT } from './og-assets.js';
+import { cachedOgImage } from './og-cache.js';
+import { ogCardVersion, type OgCard } from './og-cards.js';
+
+// Image sizes, picked with ?format=; sizes scale type and padding with them
+export const OG_FORMATS = {
+  // Open Graph, as linked from page heads
+  og: { width: 1200, height: 630, scale: 1, padding: '80px' },
+  // Twitter's summary_large_image card is 2:1
+  twitter: { width: 1200, height: 600, scale: 1, padding: '72px 80px' },
+  // Instagram posts and podcast artwork, which must be at least 1400px square
+  square: { width: 1400, height: 1400, scale: 1.5, padding: '120px' },
+  // Instagram and Facebook stories; the padding keeps text clear of their controls
+  story: { width: 1080, height: 1920, scale: 1.4, padding: '260px 96px' },
+} as const;
+
+export type OgFormat = keyof typeof OG_FORMATS;
+
+const FORMAT_ALIASES: Record<string, OgFormat> = {
+  vertical: 'story',
+};
+
+export const OG_THEMES = {
+  dark: {
+    background: '#1a1a1a',
+    text: '#ffffff',
+    mutedText: '#e0e0e0',
+    overlay: 'rgba(0, 0, 0, 0.65)',
+    label: 'rgba(255, 255, 255, 0.25)',
+    labelText: '#ffffff',
+    textShadow: '0 2px 8px rgba(0, 0, 0, 0.7)',
+  },
+  light: {
+    background: '#f5f2ec',
+    text: '#1a1a1a',
+    mutedText: '#4a4a4a',
+    overlay: 'rgba(245, 242, 236, 0.85)',
+    label: 'rgba(0, 0, 0, 0.08)',
+    labelText: '#1a1a1a',
+    textShadow: 'none',
+  },
+} as const;
+
+export type OgTheme = keyof typeof OG_THEMES;
+
+export interface OgOptions {
+  format: OgFormat;
+  theme: OgTheme;
+}
+
+// ?format= and ?theme= from an OG image URL; null when either is not one we draw
+export function parseOgOptions(url: URL): OgOptions | null {
+  const formatParam = url.searchParams.get('format') || 'og';
+  const themeParam = url.searchParams.get('theme') || 'dark';
+  const format = FORMAT_ALIASES[formatParam] || formatParam;
+
+  if (!Object.hasOwn(OG_FORMATS, format) || !Object.hasOwn(OG_THEMES, themeParam)) {
+    return null;
+  }
+  return { format: format as OgFormat, theme: themeParam as OgTheme };
+}
+
+// Error message for a request parseOgOptions rejected
+export function ogOptionsError(): string {
+  return `format must be one of ${[...Object.keys(OG_FORMATS), ...Object.keys(FORMAT_ALIASES)].join(', ')}` +
+    ` and theme one of ${Object.keys(OG_THEMES).join(', ')}`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length - 3) + '...' : text;
+}
+
+// Images as data URIs (see readOgImage); null when there is none or it could not be read
+interface OgCardImages {
+  coverUrl: string | null;
+  iconUrl: string | null;
+}
+
+function loadOgImage(src: string): Promise<string | null> {
+  return readOgImage(src).catch((error) => {
+    logger.warn('Error loading OG card image', { src, error });
+    return null;
+  });
+}
+
+// The one layout every OG image uses: a label, a title and a description,
+// over cover art when there is some and centered under the icon when there is not
+function OgCardImage({ coverUrl, iconUrl, label, labelColor, title, description, format, theme }: OgCard & OgOptions & OgCardImages) {
+  const { scale, padding } = OG_FORMATS[format];
+  const colors = OG_THEMES[theme];
+  const size = (px: number) => `${Math.round(px * scale)}px`;
+
+  return (
+    <div
+      style={{
+        height: '100%',
+        width: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        position: 'relative',
+        backgroundColor: colors.background,
+      }}
+    >
+      {coverUrl && (
+        <img
+          src={coverUrl}
+          alt=""
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover',
+          }}
+        />
+      )}
+
+      {/* Overlay for text readability */}
+      {coverUrl && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: colors.overlay,
+          }}
+        />
+      )}
+
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: coverUrl ? 'flex-start' : 'center',
+          justifyContent: format === 'story' && coverUrl ? 'flex-end' : 'center',
+          padding,
+          width: '100%',
+          height: '100%',
+          position: 'relative',
+        }}
+      >
+        {!coverUrl && iconUrl && (
+          <img src={iconUrl} alt="" style={{ width: size(120), height: size(120), marginBottom: size(32) }} />
+        )}
+
+        {label && (
+          <div
+            style={{
+              backgroundColor: labelColor || colors.label,
+              color: labelColor ? '#ffffff' : colors.labelText,
+              padding: `${size(10)} ${size(20)}`,
+              borderRadius: '4px',
+              fontSize: size(16),
+              fontFamily: LABEL_FONT,
+              letterSpacing: size(2),
+              marginBottom: size(32),
+            }}
+          >
+            {label.toUpperCase()}
+          </div>
+        )}
+
+        <h1
+          style={{
+            fontSize: size(title.length > 60 ? 48 : 64),
+            fontFamily: TITLE_FONT,
+            fontWeight: 400,
+            color: colors.text,
+            lineHeight: 1.1,
+            margin: 0,
+            marginBottom: size(24),
+            textAlign: coverUrl ? 'left' : 'center',
+            textShadow: coverUrl ? colors.textShadow : 'none',
+          }}
+        >
+          {title}
+        </h1>
+
+        {description && (
+          <p
+            style={{
+              fontSize: size(26),
+              fontFamily: TEXT_FONT,
+              color: colors.mutedText,
+              lineHeight: 1.4,
+              margin: 0,
+              textAlign: coverUrl ? 'left' : 'center',
+              textShadow: coverUrl ? colors.textShadow : 'none',
+            }}
+          >
+            {truncate(description, 200)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// The drawing only depends on the card and options, since images are read from
+// public/ or their own URL, so every host can share one stored copy
+function renderOgImage(card: OgCard, options: OgOptions): Promise<Buffer> {
+  return cachedOgImage(`${ogCardVersion(card)}-${options.format}-${options.theme}`, async () => {
+    const { width, height } = OG_FORMATS[options.format];
+    const [coverUrl, iconUrl] = await Promise.all([
+      card.image ? loadOgImage(card.image) : null,
+      loadOgImage(OG_ICON_PATH),
+    ]);
+    const imageResponse = new ImageResponse(<OgCardImage {...card} {...options} coverUrl={coverUrl} iconUrl={iconUrl} />, {
+      width,
+      height,
+      fonts: await loadOgFonts(),
+    });
+    return Buffer.from(await imageResponse.arrayBuffer());
+  });
+}
+
+// Draws the card at the requested size and theme, or reuses the stored drawing,
+// and sends it as a PNG. Only a URL naming the current version (?v=, see
+// lib/og-cards.ts) is cached for good; any other may show different content later.
+export async function sendOgImage(
+  req: VercelRequest,
+  res: VercelResponse,
+  card: OgCard,
+  options: OgOptions
+): Promise<void> {
+  const png = await renderOgImage(card, options);
+  const immutable = req.query.v === ogCardVersion(card);
+
+  res.setHeader('Content-Type', 'image/png');
+  res.setHeader('Cache-Control', immutable ? 'public, max-age=31536000, immutable' : CATALOG_CACHE_CONTROL);
+  res.status(200).end(png);
+}
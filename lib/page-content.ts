@@ -0,0 +1,106 @@
+import { toEpisodeSummary, type EpisodePage } from './episode-query.js';
+import { html, type SafeHtml } from './html.js';
+import type { PageContent } from './page-template.js';
+import { slugify } from './slug.js';
+import { formatTranscript, parseTranscript } from './transcript.js';
+import type { Episode, EpisodeSummary } from './types.js';
+
+// Embedded in rendered pages so the client starts from what the server loaded
+export interface PageData {
+  // Client filter the listing belongs to: 'all', a category slug, 'tag:<slug>' or 'host:<slug>'
+  filter?: string;
+  episodes?: EpisodeSummary[];
+  // Episodes matching the filter, beyond the first page
+  total?: number;
+  // The episode an episode page opens
+  episode?: Episode;
+  // The page is on a static mirror: the client reads exported files under /data, not the API
+  mirror?: boolean;
+}
+
+// Dates render the same wherever the function runs
+const CARD_DATE = new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+const STORY_DATE = new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+// 1485 -> 24:45, 3725 -> 1:02:05
+export function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+// Same markup as the client's createEpisodeCard, but a link so it works without the script
+function renderEpisodeCard(episode: EpisodeSummary): SafeHtml {
+  return html`<a class="episode-card" href="/episode/${episode.id}" data-category="${episode.category || ''}" data-episode-id="${episode.id}">
+                <img src="${episode.coverImage || '/images/icon.webp'}" alt="${episode.title}" loading="lazy">
+                <div class="episode-gradient"></div>
+                <div class="episode-info">
+                    <h3 class="episode-title">${episode.title}</h3>
+                    <p class="episode-description">${episode.description || ''}</p>
+                    ${episode.category && html`<span class="episode-category">${episode.category.toUpperCase()}</span>`}
+                    ${episode.host && html`<div class="episode-host">Host: ${episode.host}</div>`}
+                    <div class="episode-date">${CARD_DATE.format(new Date(episode.createdAt)).replace(',', '')}</div>
+                </div>
+            </a>`;
+}
+
+export function renderEpisodeCards(episodes: EpisodeSummary[]): SafeHtml {
+  return html`${episodes.map((episode) => html`
+            ${renderEpisodeCard(episode)}`)}
+        `;
+}
+
+// Cards for the first page of a listing, with the episodes embedded for the client
+export function listingContent(filter: string, page: EpisodePage): PageContent {
+  const episodes = page.episodes.map(toEpisodeSummary);
+  return {
+    episodes: renderEpisodeCards(episodes),
+    data: { filter, episodes, total: page.total },
+  };
+}
+
+function renderTranscript(episode: Episode): SafeHtml | null {
+  if (!episode.transcript) {
+    return null;
+  }
+  const text = formatTranscript(parseTranscript(episode.transcript, episode.duration), 'txt');
+  const paragraphs = text.split(/\n{2,}/).map((paragraph) => paragraph.trim()).filter(Boolean);
+  return html`
+            <section class="story-transcript">
+                <h2 class="modal-related-heading">Transcript</h2>${paragraphs.map((paragraph) => html`
+                <p class="modal-description">${paragraph}</p>`)}
+            </section>`;
+}
+
+// The story as the modal shows it, plus its transcript; the client swaps it for the modal
+export function renderStory(episode: Episode): SafeHtml {
+  const meta = [
+    episode.episodeNumber && html`<div class="modal-meta-item"><strong>Episode</strong> ${episode.episodeNumber}</div>`,
+    episode.duration && html`<div class="modal-meta-item"><strong>Duration</strong> ${formatTime(episode.duration)}</div>`,
+    episode.host && html`<div class="modal-meta-item"><strong>Host</strong> <a class="modal-host-link" href="/host/${slugify(episode.host)}">${episode.host}</a></div>`,
+  ].filter((item): item is SafeHtml => !!item);
+
+  return html`
+    <article class="story-page" id="storyPage">
+        <img class="modal-image" src="${episode.coverImage || '/images/icon.webp'}" alt="${episode.title}">
+        <div class="modal-body">
+            ${episode.category && html`<span class="modal-category">${episode.category.toUpperCase()}</span>`}
+            <h1 class="modal-title">${episode.title}</h1>
+            ${meta.length > 0 && html`<div class="modal-meta">${meta}</div>`}
+            <p class="modal-description">${episode.fullDescription || episode.description || 'No description available.'}</p>
+            ${!!episode.tags?.length && html`<div class="modal-tags">${episode.tags.map((tag) =>
+              html`<a class="modal-tag" href="/tag/${slugify(tag)}">${tag.toUpperCase()}</a>`
+            )}</div>`}
+            ${episode.audioUrl && html`<audio class="story-audio" controls preload="none" src="${episode.audioUrl}"></audio>`}
+            ${!!episode.chapters?.length && html`<ol class="modal-chapters">${episode.chapters.map((chapter) => html`
+                <li class="modal-chapter"><span class="modal-chapter-seek"><span class="modal-chapter-time">${formatTime(chapter.startTime)}</span><span>${chapter.title}</span></span>${
+                  chapter.url && html`<a class="modal-chapter-link" href="${chapter.url}" target="_blank" rel="noopener noreferrer">Link</a>`
+                }</li>`)}
+            </ol>`}
+            <div class="modal-date">${STORY_DATE.format(new Date(episode.createdAt)).toUpperCase()}</div>${renderTranscript(episode)}
+        </div>
+    </article>
+    `;
+}
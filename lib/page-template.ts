@@ -0,0 +1,229 @@
+import { readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { getConfig } from './config.js';
+import { html, rawHtml, type SafeHtml } from './html.js';
+import { logger } from './log.js';
+import type { PageData } from './page-content.js';
+import type { JsonLd } from './structured-data.js';
+
+// Get __dirname equivalent for ESM
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Where app.html may live: locally, in the Vercel function bundle, or at the root.
+// It is not named index.html so that / reaches the home page renderer.
+export const APP_HTML_PATHS = [
+  join(process.cwd(), 'public', 'app.html'),
+  join(__dirname, '..', 'public', 'app.html'),
+  join(process.cwd(), 'app.html'),
+];
+
+// Reads the client page that the renderers fill in, trying each known path
+async function readAppHtml(): Promise<string> {
+  let lastError: Error | null = null;
+
+  for (const indexPath of APP_HTML_PATHS) {
+    try {
+      return await readFile(indexPath, 'utf-8');
+    } catch (error) {
+      lastError = error as Error;
+      // Try next path
+    }
+  }
+
+  logger.error('Could not find app.html', { paths: APP_HTML_PATHS, error: lastError });
+  throw new Error('Could not find app.html');
+}
+
+// Resolves a site-relative path such as /images/1.webp against the base URL
+export function absoluteUrl(baseUrl: string, url: string): string {
+  return /^https?:\/\//.test(url) ? url : `${baseUrl}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+// app.html marks the regions a page can fill between <!-- page:name --> and
+// <!-- /page:name -->; regions a page leaves out keep the shell's content
+const PAGE_SLOTS = ['head', 'loading', 'episodes', 'story', 'data'] as const;
+type PageSlot = typeof PAGE_SLOTS[number];
+
+const SLOT_PATTERN = /(<!-- page:([a-z]+) -->)([\s\S]*?)(<!-- \/page:\2 -->)/g;
+
+const SITE_NAME = 'Angle';
+const SITE_LANGUAGE = 'en';
+
+// Site-wide feeds, listed on every page ahead of the page's own
+const SITE_FEEDS: FeedLink[] = [
+  { type: 'application/rss+xml', title: SITE_NAME, href: '/feed.xml' },
+  { type: 'application/feed+json', title: SITE_NAME, href: '/feed.json' },
+  { type: 'application/atom+xml', title: SITE_NAME, href: '/atom.xml' },
+];
+
+export interface FeedLink {
+  type: 'application/rss+xml' | 'application/feed+json' | 'application/atom+xml';
+  title: string;
+  href: string;
+}
+
+export interface PageImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+// Everything a page says about itself in <head>; values are plain text and
+// are escaped when rendered
+export interface PageHead {
+  // Document title, e.g. "Science Stories | Angle"
+  title: string;
+  // Title for link previews when it differs from the document title
+  shareTitle?: string;
+  description: string;
+  // Absolute canonical URL
+  url: string;
+  type: 'website' | 'article';
+  image: PageImage;
+  // The page's own feeds, after the site-wide ones
+  feeds?: FeedLink[];
+  // oEmbed discovery for pages that can be embedded
+  oembedUrl?: string;
+  // Language versions of the page; defaults to the canonical URL in English
+  alternateLanguages?: { hreflang: string; href: string }[];
+  structuredData?: JsonLd;
+}
+
+// What a page shows before the client script runs: server-rendered episode
+// cards, the story itself, and the data behind them for the client to reuse
+export interface PageContent {
+  episodes?: SafeHtml;
+  story?: SafeHtml;
+  data?: PageData;
+}
+
+// The shell as text between the regions a page can fill
+type PageTemplate = (string | { slot: PageSlot; fallback: string })[];
+
+let templatePromise: Promise<PageTemplate> | null = null;
+
+// Splits app.html around its page regions, once per instance
+export function compileTemplate(source: string): PageTemplate {
+  const template: PageTemplate = [];
+  let position = 0;
+
+  for (const match of source.matchAll(SLOT_PATTERN)) {
+    const [whole, open, name, fallback, close] = match;
+    if (!PAGE_SLOTS.includes(name as PageSlot)) {
+      throw new Error(`app.html has an unknown page region: ${name}`);
+    }
+    template.push(source.slice(position, match.index) + open, { slot: name as PageSlot, fallback });
+    position = match.index + whole.length - close.length;
+  }
+  template.push(source.slice(position));
+
+  if (!template.some((part) => typeof part !== 'string' && part.slot === 'head')) {
+    throw new Error('app.html is missing the <!-- page:head --> region');
+  }
+  return template;
+}
+
+function loadTemplate(): Promise<PageTemplate> {
+  if (!templatePromise) {
+    templatePromise = readAppHtml().then(compileTemplate);
+    // Retry on the next request rather than caching the failure
+    templatePromise.catch(() => {
+      templatePromise = null;
+    });
+  }
+  return templatePromise;
+}
+
+// The regions of app.html, loaded as a render would load it (readiness checks)
+export async function loadTemplateSlots(): Promise<string[]> {
+  const template = await loadTemplate();
+  return template.flatMap((part) => (typeof part === 'string' ? [] : [part.slot]));
+}
+
+// Serializes JSON for a <script> element; "<" is escaped so text cannot close the tag
+function scriptJson(data: unknown): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+function renderJsonLd(data: JsonLd): SafeHtml {
+  return rawHtml(`<script type="application/ld+json" id="structured-data">${scriptJson(data)}</script>`);
+}
+
+// The head metadata for a page, in the order app.html has it
+export function renderHead(head: PageHead): SafeHtml {
+  const shareTitle = head.shareTitle || head.title;
+  const languages = head.alternateLanguages || [
+    { hreflang: SITE_LANGUAGE, href: head.url },
+    { hreflang: 'x-default', href: head.url },
+  ];
+
+  const lines = [
+    html`<title>${head.title}</title>`,
+    html`<meta name="description" content="${head.description}">`,
+    html`<link rel="canonical" href="${head.url}">`,
+    ...languages.map((language) =>
+      html`<link rel="alternate" hreflang="${language.hreflang}" href="${language.href}">`
+    ),
+    ...[...SITE_FEEDS, ...(head.feeds || [])].map((feed) =>
+      html`<link rel="alternate" type="${feed.type}" title="${feed.title}" href="${feed.href}">`
+    ),
+    ...(head.oembedUrl
+      ? [html`<link rel="alternate" type="application/json+oembed" title="${shareTitle}" href="${head.oembedUrl}">`]
+      : []),
+    html``,
+    html`<!-- Open Graph / Facebook -->`,
+    html`<meta property="og:type" content="${head.type}">`,
+    html`<meta property="og:site_name" content="${SITE_NAME}">`,
+    html`<meta property="og:url" content="${head.url}">`,
+    html`<meta property="og:title" content="${shareTitle}">`,
+    html`<meta property="og:description" content="${head.description}">`,
+    html`<meta property="og:image" content="${head.image.url}">`,
+    html`<meta property="og:image:width" content="${head.image.width}">`,
+    html`<meta property="og:image:height" content="${head.image.height}">`,
+    html``,
+    html`<!-- Twitter -->`,
+    html`<meta name="twitter:card" content="summary_large_image">`,
+    html`<meta name="twitter:url" content="${head.url}">`,
+    html`<meta name="twitter:title" content="${shareTitle}">`,
+    html`<meta name="twitter:description" content="${head.description}">`,
+    html`<meta name="twitter:image" content="${head.image.url}">`,
+  ];
+
+  if (head.structuredData) {
+    lines.push(html``, html`<!-- Structured data -->`, renderJsonLd(head.structuredData));
+  }
+
+  return rawHtml(`\n${lines.map((line) => line.value ? `    ${line.value}` : '    ').join('\n')}\n    `);
+}
+
+function renderSlot(slot: PageSlot, fallback: string, head: PageHead, content: PageContent): string {
+  const data = getConfig().staticMirror ? { ...content.data, mirror: true } : content.data;
+
+  switch (slot) {
+    case 'head':
+      return renderHead(head).value;
+    case 'loading':
+      // Nothing left to wait for once the server has rendered the page's content
+      return content.episodes || content.story ? '' : fallback;
+    case 'episodes':
+      return content.episodes?.value ?? fallback;
+    case 'story':
+      return content.story?.value ?? fallback;
+    case 'data':
+      return data
+        ? `<script type="application/json" id="page-data">${scriptJson(data)}</script>`
+        : fallback;
+  }
+}
+
+// app.html with the page's head metadata and content filled in
+export async function renderPage(head: PageHead, content: PageContent = {}): Promise<string> {
+  const template = await loadTemplate();
+  return template
+    .map((part) => typeof part === 'string' ? part : renderSlot(part.slot, part.fallback, head, content))
+    .join('');
+}
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import type { Category } from './categories.js';
+import { chaptersPath } from './chapters.js';
+import { absoluteUrl } from './page-template.js';
+import { parseTranscript } from './transcript.js';
+import type { Episode } from './types.js';
+import { cdata, escapeXml } from './xml.js';
+
+const SHOW_TITLE = 'Angle';
+const SHOW_DESCRIPTION = 'Stories worth listening.';
+const SHOW_AUTHOR = 'Angle';
+
+// Namespace for podcast:guid, from the Podcasting 2.0 specification
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+// Apple Podcasts categories for our own categories; the show as a whole is News
+const ITUNES_CATEGORIES: Record<string, [string, string?]> = {
+  'Business & Economy': ['News', 'Business News'],
+  Culture: ['Society & Culture'],
+  Health: ['Health & Fitness'],
+  Science: ['Science'],
+  Sports: ['News', 'Sports News'],
+  Technology: ['News', 'Tech News'],
+};
+const DEFAULT_ITUNES_CATEGORY: [string, string?] = ['News'];
+
+const AUDIO_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/x-m4a',
+  '.mp4': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/opus',
+  '.wav': 'audio/wav',
+};
+
+export interface PodcastFeedOptions {
+  baseUrl: string;
+  episodes: Episode[];
+  // Restricts the feed to one category (for /:category/feed.xml)
+  category?: Category;
+  ownerEmail?: string;
+}
+
+// Path of the feed for a category, or of the main feed
+export function podcastFeedPath(category?: Pick<Category, 'slug'>): string {
+  return category ? `/${category.slug}/feed.xml` : '/feed.xml';
+}
+
+// UUIDv5 of the feed URL without its scheme, as podcast:guid requires
+function podcastGuid(feedUrl: string): string {
+  const namespace = Buffer.from(PODCAST_GUID_NAMESPACE.replace(/-/g, ''), 'hex');
+  const name = feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '');
+  const hash = createHash('sha1').update(namespace).update(name).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function audioMimeType(audioUrl: string): string {
+  const extension = new URL(audioUrl, 'http://localhost').pathname.match(/\.[a-z0-9]+$/i)?.[0].toLowerCase();
+  return (extension && AUDIO_TYPES[extension]) || 'audio/mpeg';
+}
+
+function itunesCategory([name, subcategory]: [string, string?]): string {
+  return subcategory
+    ? `<itunes:category text="${escapeXml(name)}"><itunes:category text="${escapeXml(subcategory)}"/></itunes:category>`
+    : `<itunes:category text="${escapeXml(name)}"/>`;
+}
+
+function renderItem(episode: Episode & { audioUrl: string }, baseUrl: string): string {
+  const episodeUrl = `${baseUrl}/episode/${episode.id}`;
+  const summary = episode.fullDescription || episode.description || '';
+  const lines = [
+    `<title>${escapeXml(episode.title)}</title>`,
+    `<link>${escapeXml(episodeUrl)}</link>`,
+    `<guid isPermaLink="false">${escapeXml(episode.id)}</guid>`,
+    `<pubDate>${new Date(episode.createdAt).toUTCString()}</pubDate>`,
+    `<description>${cdata(summary)}</description>`,
+    `<itunes:summary>${escapeXml(episode.description || summary)}</itunes:summary>`,
+    // Audio size is not stored, and 0 is what validators accept for unknown
+    `<enclosure url="${escapeXml(absoluteUrl(baseUrl, episode.audioUrl))}" length="0" type="${audioMimeType(episode.audioUrl)}"/>`,
+    `<itunes:episodeType>full</itunes:episodeType>`,
+    `<itunes:explicit>false</itunes:explicit>`,
+  ];
+
+  if (episode.duration) {
+    lines.push(`<itunes:duration>${Math.round(episode.duration)}</itunes:duration>`);
+  }
+  if (episode.episodeNumber) {
+    lines.push(`<itunes:episode>${episode.episodeNumber}</itunes:episode>`);
+  }
+  if (episode.host) {
+    lines.push(`<itunes:author>${escapeXml(episode.host)}</itunes:author>`);
+    lines.push(`<podcast:person role="host">${escapeXml(episode.host)}</podcast:person>`);
+  }
+  if (episode.coverImage) {
+    lines.push(`<itunes:image href="${escapeXml(absoluteUrl(baseUrl, episode.coverImage))}"/>`);
+  }
+  if (episode.transcript?.trim()) {
+    const transcriptUrl = `${baseUrl}/api/episodes/${encodeURIComponent(episode.id)}/transcript`;
+    // Cue times estimated from text length would make misleading captions, so
+    // untimed transcripts are only offered as text
+    if (parseTranscript(episode.transcript, episode.duration).timed) {
+      lines.push(`<podcast:transcript url="${escapeXml(`${transcriptUrl}?format=vtt`)}" type="text/vtt" rel="captions"/>`);
+      lines.push(`<podcast:transcript url="${escapeXml(`${transcriptUrl}?format=json`)}" type="application/json"/>`);
+    } else {
+      lines.push(`<podcast:transcript url="${escapeXml(`${transcriptUrl}?format=txt`)}" type="text/plain"/>`);
+    }
+  }
+  if (episode.chapters?.length) {
+    lines.push(`<podcast:chapters url="${escapeXml(`${baseUrl}${chaptersPath(episode)}`)}" type="application/json+chapters"/>`);
+  }
+  for (const tag of episode.tags || []) {
+    lines.push(`<category>${escapeXml(tag)}</category>`);
+  }
+
+  return `    <item>\n${lines.map((line) => `      ${line}`).join('\n')}\n    </item>`;
+}
+
+/**
+ * Podcast RSS 2.0 feed with the iTunes and Podcasting 2.0 namespaces.
+ * Episodes without audio have nothing to subscribe to and are left out.
+ */
+export function buildPodcastFeed({ baseUrl, episodes, category, ownerEmail }: PodcastFeedOptions): string {
+  const feedUrl = `${baseUrl}${podcastFeedPath(category)}`;
+  const siteUrl = category ? `${baseUrl}/${category.slug}` : `${baseUrl}/`;
+  const title = category ? `${SHOW_TITLE}: ${category.name}` : SHOW_TITLE;
+  const description = category ? category.description : SHOW_DESCRIPTION;
+  // Podcast apps want square artwork
+  const artworkUrl = category
+    ? `${baseUrl}/api/og-image/category/${category.slug}?format=square`
+    : `${baseUrl}/api/og-image?format=square`;
+  const playable = episodes.filter((episode): episode is Episode & { audioUrl: string } => !!episode.audioUrl);
+  const lastBuildDate = playable[0] ? new Date(playable[0].createdAt) : new Date(0);
+
+  const channel = [
+    `<title>${escapeXml(title)}</title>`,
+    `<link>${escapeXml(siteUrl)}</link>`,
+    `<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<description>${escapeXml(description)}</description>`,
+    `<language>en</language>`,
+    `<lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>`,
+    `<image><url>${escapeXml(artworkUrl)}</url><title>${escapeXml(title)}</title><link>${escapeXml(siteUrl)}</link></image>`,
+    `<itunes:image href="${escapeXml(artworkUrl)}"/>`,
+    `<itunes:author>${SHOW_AUTHOR}</itunes:author>`,
+    ownerEmail
+      ? `<itunes:owner><itunes:name>${SHOW_AUTHOR}</itunes:name><itunes:email>${escapeXml(ownerEmail)}</itunes:email></itunes:owner>`
+      : `<itunes:owner><itunes:name>${SHOW_AUTHOR}</itunes:name></itunes:owner>`,
+    itunesCategory((category && ITUNES_CATEGORIES[category.name]) || DEFAULT_ITUNES_CATEGORY),
+    `<itunes:explicit>false</itunes:explicit>`,
+    `<itunes:type>episodic</itunes:type>`,
+    `<podcast:guid>${podcastGuid(feedUrl)}</podcast:guid>`,
+    `<podcast:locked>no</podcast:locked>`,
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:atom="http://www.w3.org/2005/Atom"
+  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+${channel.map((line) => `    ${line}`).join('\n')}
+${playable.map((episode) => renderItem(episode, baseUrl)).join('\n')}
+  </channel>
+</rss>
+`;
+}
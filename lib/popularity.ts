@@ -0,0 +1,59 @@
+import type { EngagementEvent, EngagementType, Episode } from './types.js';
+
+export const ENGAGEMENT_TYPES: EngagementType[] = ['play', 'complete', 'share'];
+
+// How much one event of each type counts towards popularity
+export const ENGAGEMENT_WEIGHTS: Record<EngagementType, number> = {
+  play: 1,
+  complete: 3,
+  share: 5,
+};
+
+// An event loses half its weight every HALF_LIFE_DAYS
+export const HALF_LIFE_DAYS = 7;
+
+// Older events contribute less than 1/500 of their weight and are not counted
+export const SCORE_WINDOW_DAYS = 63;
+
+export const DAY_MS = 86_400_000;
+
+/**
+ * Sums the time-decayed weight of every event per episode:
+ * score = Σ weight(type) · 0.5^(age / half-life)
+ *
+ * The database computes the same sum in episode_popularity_scores().
+ */
+export function computePopularityScores(
+  events: EngagementEvent[],
+  now: number = Date.now()
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  const halfLifeMs = HALF_LIFE_DAYS * DAY_MS;
+
+  for (const event of events) {
+    const createdAt = Date.parse(event.createdAt);
+    if (Number.isNaN(createdAt)) {
+      continue;
+    }
+    const age = Math.max(0, now - createdAt);
+    const score = ENGAGEMENT_WEIGHTS[event.type] * Math.pow(0.5, age / halfLifeMs);
+    scores.set(event.episodeId, (scores.get(event.episodeId) || 0) + score);
+  }
+
+  return scores;
+}
+
+// Highest score first; episodes without engagement follow, newest first
+export function rankByPopularity<T extends Pick<Episode, 'id' | 'createdAt'>>(
+  episodes: T[],
+  scores: Map<string, number>
+): T[] {
+  return [...episodes].sort((a, b) => {
+    const byScore = (scores.get(b.id) || 0) - (scores.get(a.id) || 0);
+    if (byScore !== 0) {
+      return byScore;
+    }
+    const byDate = Date.parse(b.createdAt) - Date.parse(a.createdAt);
+    return byDate !== 0 ? byDate : a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+  });
+}
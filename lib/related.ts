@@ -0,0 +1,142 @@
+import { toEpisodeSummary } from './episode-query.js';
+import { normalizeTerm, tokenize } from './search.js';
+import { slugify } from './slug.js';
+import type { Episode, EpisodeSummary } from './types.js';
+
+export type RelatedReason = 'category' | 'tags' | 'host' | 'text';
+
+export interface RelatedEpisode {
+  episode: EpisodeSummary;
+  score: number;
+  reasons: RelatedReason[];
+  sharedTags: string[];
+}
+
+// Contribution of each signal to the score (each signal is scaled to 0..1 first)
+const WEIGHTS: Record<RelatedReason, number> = {
+  category: 3,
+  tags: 4,
+  host: 1.5,
+  text: 4,
+};
+
+// Text similarity below this is noise and is not reported as a reason
+const MIN_TEXT_SIMILARITY = 0.05;
+
+// Words too common to say anything about what a story is about
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from',
+  'has', 'have', 'how', 'in', 'into', 'is', 'it', 'its', 'new', 'of', 'on', 'or', 'our',
+  'so', 'story', 'that', 'the', 'their', 'this', 'to', 'us', 'was', 'we', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+].map(normalizeTerm));
+
+function episodeTerms(episode: Episode): string[] {
+  const text = [episode.title, episode.description, episode.fullDescription].filter(Boolean).join(' ');
+  return tokenize(text).filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+// TF-IDF vectors for every episode, normalised to unit length
+function buildVectors(episodes: Episode[]): Map<string, Map<string, number>> {
+  const termsById = new Map(episodes.map((episode) => [episode.id, episodeTerms(episode)]));
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of termsById.values()) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const vectors = new Map<string, Map<string, number>>();
+  for (const [id, terms] of termsById) {
+    const vector = new Map<string, number>();
+    for (const term of terms) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+    let norm = 0;
+    for (const [term, tf] of vector) {
+      const weight = tf * Math.log(1 + episodes.length / documentFrequency.get(term)!);
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm) || 1;
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / norm);
+    }
+    vectors.set(id, vector);
+  }
+  return vectors;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    dot += weight * (large.get(term) || 0);
+  }
+  return dot;
+}
+
+/**
+ * Ranks the episodes most similar to `target`: same category, overlapping
+ * tags (Jaccard), same host and TF-IDF similarity of titles and descriptions.
+ * The order only depends on the catalog, so results are stable and cacheable.
+ */
+export function findRelatedEpisodes(target: Episode, episodes: Episode[], limit: number): RelatedEpisode[] {
+  const catalog = episodes.some((episode) => episode.id === target.id) ? episodes : [target, ...episodes];
+  const vectors = buildVectors(catalog);
+  const targetVector = vectors.get(target.id)!;
+  const targetTags = new Set((target.tags || []).map(slugify));
+  const targetHost = target.host?.trim().toLowerCase();
+
+  const related: RelatedEpisode[] = [];
+
+  for (const episode of catalog) {
+    if (episode.id === target.id) {
+      continue;
+    }
+
+    const reasons: RelatedReason[] = [];
+    let score = 0;
+
+    if (target.category && episode.category === target.category) {
+      score += WEIGHTS.category;
+      reasons.push('category');
+    }
+
+    const sharedTags = (episode.tags || []).filter((tag) => targetTags.has(slugify(tag)));
+    if (sharedTags.length > 0) {
+      const union = new Set([...targetTags, ...(episode.tags || []).map(slugify)]).size;
+      score += WEIGHTS.tags * (sharedTags.length / union);
+      reasons.push('tags');
+    }
+
+    if (targetHost && episode.host?.trim().toLowerCase() === targetHost) {
+      score += WEIGHTS.host;
+      reasons.push('host');
+    }
+
+    const similarity = cosine(targetVector, vectors.get(episode.id)!);
+    if (similarity >= MIN_TEXT_SIMILARITY) {
+      score += WEIGHTS.text * similarity;
+      reasons.push('text');
+    }
+
+    if (score > 0) {
+      related.push({
+        episode: toEpisodeSummary(episode),
+        score: Math.round(score * 1000) / 1000,
+        reasons,
+        sharedTags,
+      });
+    }
+  }
+
+  return related
+    .sort((a, b) =>
+      b.score - a.score ||
+      Date.parse(b.episode.createdAt) - Date.parse(a.episode.createdAt) ||
+      (a.episode.id < b.episode.id ? -1 : 1)
+    )
+    .slice(0, limit);
+}
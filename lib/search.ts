@@ -0,0 +1,276 @@
+import { toEpisodeSummary } from './episode-query.js';
+import { escapeHtml } from './html.js';
+import { slugify } from './slug.js';
+import type { Episode, EpisodeSummary } from './types.js';
+
+export type SearchField = 'title' | 'tags' | 'description' | 'fullDescription' | 'transcript';
+
+// Relative importance of a match in each field
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2.5,
+  description: 2,
+  fullDescription: 1.5,
+  transcript: 1,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// Fields a snippet may be cut from, in order of preference
+const SNIPPET_FIELDS: SearchField[] = ['description', 'fullDescription', 'transcript'];
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Extra weight when the whole query appears verbatim
+const PHRASE_BOOST = 1.5;
+
+const SNIPPET_LENGTH = 160;
+
+export interface SearchOptions {
+  category?: string | null;
+  tag?: string | null;
+}
+
+export interface SearchResult {
+  episode: EpisodeSummary;
+  score: number;
+  matchedFields: SearchField[];
+  // HTML-escaped text with matches wrapped in <mark>
+  highlightedTitle: string;
+  snippet: string | null;
+  snippetField: SearchField | null;
+}
+
+interface IndexedEpisode {
+  episode: Episode;
+  fields: Record<SearchField, string>;
+  tokens: Record<SearchField, string[]>;
+  // Every field's tokens joined, for phrase matches
+  phrases: string[];
+}
+
+// The catalog tokenized once, so a search only scores it
+export interface SearchIndex {
+  docs: IndexedEpisode[];
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Lowercases, strips accents and folds simple plurals so "Stories" finds "story"
+export function normalizeTerm(word: string): string {
+  const term = word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  if (term.length > 4 && term.endsWith('ies')) {
+    return `${term.slice(0, -3)}y`;
+  }
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) {
+    return term.slice(0, -1);
+  }
+  return term;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(normalizeTerm);
+}
+
+function fieldText(episode: Episode, field: SearchField): string {
+  if (field === 'tags') {
+    return (episode.tags || []).join(' ');
+  }
+  return episode[field] || '';
+}
+
+function indexEpisode(episode: Episode): IndexedEpisode {
+  const fields = {} as Record<SearchField, string>;
+  const tokens = {} as Record<SearchField, string[]>;
+  for (const field of SEARCH_FIELDS) {
+    fields[field] = fieldText(episode, field);
+    tokens[field] = tokenize(fields[field]);
+  }
+  return { episode, fields, tokens, phrases: SEARCH_FIELDS.map((field) => tokens[field].join(' ')) };
+}
+
+// Tokenizes every field of every episode; transcripts make this the costly part
+export function buildSearchIndex(episodes: Episode[]): SearchIndex {
+  return { docs: episodes.map(indexEpisode) };
+}
+
+/*
+ * Query terms match whole tokens, except the last one, which also matches as
+ * a prefix so results keep up while someone is still typing
+ */
+
+interface QueryTerm {
+  term: string;
+  prefix: boolean;
+}
+
+function parseQuery(q: string): QueryTerm[] {
+  const terms = [...new Set(tokenize(q))];
+  const endsMidWord = /[\p{L}\p{N}]$/u.test(q.trim());
+  return terms.map((term, index) => ({
+    term,
+    prefix: endsMidWord && index === terms.length - 1 && term.length >= 2,
+  }));
+}
+
+function matchesTerm(token: string, { term, prefix }: QueryTerm): boolean {
+  return prefix ? token.startsWith(term) : token === term;
+}
+
+// Wraps every word matching a query term in <mark>, escaping everything else
+function highlight(text: string, terms: QueryTerm[]): string {
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index!;
+    const word = match[0];
+    if (terms.some((term) => matchesTerm(normalizeTerm(word), term))) {
+      html += escapeHtml(text.slice(last, start)) + `<mark>${escapeHtml(word)}</mark>`;
+      last = start + word.length;
+    }
+  }
+  return html + escapeHtml(text.slice(last));
+}
+
+// Cuts the window of `text` holding the most matches and highlights it
+function buildSnippet(text: string, terms: QueryTerm[]): string | null {
+  const positions: number[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (terms.some((term) => matchesTerm(normalizeTerm(match[0]), term))) {
+      positions.push(match.index!);
+    }
+  }
+  if (positions.length === 0) {
+    return null;
+  }
+  if (text.length <= SNIPPET_LENGTH) {
+    return highlight(text.replace(/\s+/g, ' ').trim(), terms);
+  }
+
+  let bestStart = positions[0];
+  let bestCount = 0;
+  for (const start of positions) {
+    const count = positions.filter((p) => p >= start && p < start + SNIPPET_LENGTH).length;
+    if (count > bestCount) {
+      bestStart = start;
+      bestCount = count;
+    }
+  }
+
+  // Start a little before the first match, on a word boundary
+  let start = Math.max(0, bestStart - 40);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < bestStart ? space + 1 : bestStart;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${highlight(excerpt, terms)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Ranks episodes for a free-text query with BM25 over the weighted fields.
+ * Every episode matching at least one term is returned, best match first;
+ * ties keep the newest episode first.
+ */
+export function searchEpisodes(index: SearchIndex, q: string, options: SearchOptions = {}): SearchResult[] {
+  const terms = parseQuery(q);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const category = options.category?.toLowerCase();
+  // Tags compare by slug, as listings do, so "new-york" finds "New York"
+  const tag = options.tag ? slugify(options.tag) : null;
+  const docs = index.docs.filter(({ episode }) =>
+    (!category || episode.category?.toLowerCase() === category) &&
+    (!tag || episode.tags?.some((t) => slugify(t) === tag))
+  );
+  if (docs.length === 0) {
+    return [];
+  }
+
+  const averageLength = {} as Record<SearchField, number>;
+  for (const field of SEARCH_FIELDS) {
+    const total = docs.reduce((sum, doc) => sum + doc.tokens[field].length, 0);
+    averageLength[field] = total / docs.length || 1;
+  }
+
+  // Inverse document frequency per term, over the filtered candidates
+  const idf = terms.map((term) => {
+    const containing = docs.filter((doc) =>
+      SEARCH_FIELDS.some((field) => doc.tokens[field].some((token) => matchesTerm(token, term)))
+    ).length;
+    return Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5));
+  });
+
+  const phrase = terms.length > 1 ? terms.map((t) => t.term).join(' ') : null;
+  const results: SearchResult[] = [];
+
+  for (const doc of docs) {
+    let score = 0;
+    let matchedTerms = 0;
+    const matchedFields = new Set<SearchField>();
+
+    terms.forEach((term, i) => {
+      let weightedTf = 0;
+      for (const field of SEARCH_FIELDS) {
+        const tokens = doc.tokens[field];
+        const tf = tokens.filter((token) => matchesTerm(token, term)).length;
+        if (tf > 0) {
+          matchedFields.add(field);
+          weightedTf += (FIELD_WEIGHTS[field] * tf) / (1 - B + (B * tokens.length) / averageLength[field]);
+        }
+      }
+      if (weightedTf > 0) {
+        matchedTerms++;
+        score += idf[i] * ((weightedTf * (K1 + 1)) / (weightedTf + K1));
+      }
+    });
+
+    if (matchedTerms === 0) {
+      continue;
+    }
+
+    // Prefer episodes matching every term, then verbatim phrases
+    score *= matchedTerms / terms.length;
+    if (phrase && doc.phrases.some((text) => text.includes(phrase))) {
+      score *= PHRASE_BOOST;
+    }
+
+    let snippet: string | null = null;
+    let snippetField: SearchField | null = null;
+    for (const field of SNIPPET_FIELDS) {
+      if (matchedFields.has(field)) {
+        snippet = buildSnippet(doc.fields[field], terms);
+        snippetField = field;
+        break;
+      }
+    }
+    if (!snippet && doc.episode.description) {
+      snippet = escapeHtml(doc.episode.description);
+      snippetField = 'description';
+    }
+
+    results.push({
+      episode: toEpisodeSummary(doc.episode),
+      score: Math.round(score * 1000) / 1000,
+      matchedFields: SEARCH_FIELDS.filter((field) => matchedFields.has(field)),
+      highlightedTitle: highlight(doc.episode.title, terms),
+      snippet,
+      snippetField,
+    });
+  }
+
+  return results.sort((a, b) =>
+    b.score - a.score ||
+    Date.parse(b.episode.createdAt) - Date.parse(a.episode.createdAt)
+  );
+}
@@ -0,0 +1,216 @@
+import type { CategoryRegistry } from './categories.js';
+import type { Host } from './hosts.js';
+import { absoluteUrl } from './page-template.js';
+import type { Tag } from './tags.js';
+import type { Episode } from './types.js';
+import { escapeXml } from './xml.js';
+
+// Google News only indexes articles from the last two days
+export const NEWS_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+const NEWS_MAX_URLS = 1000;
+
+const PUBLICATION_NAME = 'Angle';
+const PUBLICATION_LANGUAGE = 'en';
+
+// Sitemaps are served from /sitemaps/<name>.xml and listed by the /sitemap.xml index
+export type SitemapName = 'pages' | 'tags' | 'hosts' | 'news' | `episodes-${string}`;
+
+const EPISODES_SITEMAP_PATTERN = /^episodes-(\d{4})-(\d{2})$/;
+
+export interface SitemapContext {
+  baseUrl: string;
+  // Newest first
+  episodes: Episode[];
+  registry: CategoryRegistry;
+  tags: Tag[];
+  hosts: Host[];
+  now: Date;
+}
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: string;
+  changefreq?: 'daily' | 'weekly' | 'monthly';
+  priority?: number;
+  images?: string[];
+  news?: { title: string; publishedAt: string };
+}
+
+function lastmod(dateString: string): string {
+  return new Date(dateString).toISOString();
+}
+
+function latest(dates: string[]): string | undefined {
+  return dates.length > 0 ? new Date(Math.max(...dates.map(Date.parse))).toISOString() : undefined;
+}
+
+function newest(episodes: Episode[]): string | undefined {
+  return episodes[0] ? lastmod(episodes[0].createdAt) : undefined;
+}
+
+function episodeMonth(episode: Episode): string {
+  return new Date(episode.createdAt).toISOString().slice(0, 7);
+}
+
+export function sitemapPath(name: SitemapName): string {
+  return `/sitemaps/${name}.xml`;
+}
+
+// Reads "episodes-2025-09.xml" style file names; null when not a known sitemap
+export function parseSitemapName(file: string): SitemapName | null {
+  const name = file.replace(/\.xml$/, '');
+  if (name === 'pages' || name === 'tags' || name === 'hosts' || name === 'news') {
+    return name;
+  }
+  const month = name.match(EPISODES_SITEMAP_PATTERN);
+  return month && Number(month[2]) >= 1 && Number(month[2]) <= 12 ? (name as SitemapName) : null;
+}
+
+function renderUrl(url: SitemapUrl): string {
+  const lines = [`<loc>${escapeXml(url.loc)}</loc>`];
+  if (url.lastmod) {
+    lines.push(`<lastmod>${url.lastmod}</lastmod>`);
+  }
+  if (url.changefreq) {
+    lines.push(`<changefreq>${url.changefreq}</changefreq>`);
+  }
+  if (url.priority !== undefined) {
+    lines.push(`<priority>${url.priority.toFixed(1)}</priority>`);
+  }
+  for (const image of url.images || []) {
+    lines.push(`<image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`);
+  }
+  if (url.news) {
+    lines.push(
+      `<news:news><news:publication><news:name>${PUBLICATION_NAME}</news:name><news:language>${PUBLICATION_LANGUAGE}</news:language></news:publication>` +
+      `<news:publication_date>${url.news.publishedAt}</news:publication_date><news:title>${escapeXml(url.news.title)}</news:title></news:news>`
+    );
+  }
+  return `  <url>\n${lines.map((line) => `    ${line}`).join('\n')}\n  </url>`;
+}
+
+function renderUrlset(urls: SitemapUrl[]): string {
+  const namespaces = ['xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"'];
+  if (urls.some((url) => url.images?.length)) {
+    namespaces.push('xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"');
+  }
+  if (urls.some((url) => url.news)) {
+    namespaces.push('xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"');
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset ${namespaces.join(' ')}>
+${urls.map(renderUrl).join('\n')}
+</urlset>
+`;
+}
+
+function episodeUrl(context: SitemapContext, episode: Episode, news: boolean): SitemapUrl {
+  return {
+    loc: `${context.baseUrl}/episode/${episode.id}`,
+    lastmod: lastmod(episode.createdAt),
+    ...(!news && { changefreq: 'monthly' as const, priority: 0.8 }),
+    ...(episode.coverImage && { images: [absoluteUrl(context.baseUrl, episode.coverImage)] }),
+    ...(news && { news: { title: episode.title, publishedAt: lastmod(episode.createdAt) } }),
+  };
+}
+
+// Home, categories and special filters, each dated by the newest story it shows
+function pageUrls({ baseUrl, episodes, registry }: SitemapContext): SitemapUrl[] {
+  const urls: SitemapUrl[] = [
+    { loc: `${baseUrl}/`, lastmod: newest(episodes), changefreq: 'daily', priority: 1.0 },
+  ];
+
+  for (const category of registry.all) {
+    const shown = category.kind === 'filter'
+      ? episodes
+      : episodes.filter((episode) => episode.category === category.name);
+    urls.push({
+      loc: `${baseUrl}/${category.slug}`,
+      lastmod: newest(shown),
+      changefreq: 'daily',
+      priority: 0.9,
+    });
+  }
+  return urls;
+}
+
+function newsEpisodes({ episodes, now }: SitemapContext): Episode[] {
+  return episodes
+    .filter((episode) => now.getTime() - Date.parse(episode.createdAt) <= NEWS_WINDOW_MS)
+    .slice(0, NEWS_MAX_URLS);
+}
+
+// One entry per sitemap, dated by its newest content
+export function buildSitemapIndex(context: SitemapContext): string {
+  const { baseUrl, episodes, tags, hosts } = context;
+  const entries: { name: SitemapName; lastmod?: string }[] = [
+    { name: 'pages', lastmod: newest(episodes) },
+    { name: 'news', lastmod: newest(newsEpisodes(context)) },
+  ];
+
+  if (tags.length > 0) {
+    entries.push({ name: 'tags', lastmod: latest(tags.map((tag) => tag.latestEpisodeAt)) });
+  }
+  if (hosts.length > 0) {
+    entries.push({ name: 'hosts', lastmod: latest(hosts.map((host) => host.latestEpisodeAt)) });
+  }
+
+  // Episodes are newest first, so the first of each month is its newest
+  const months = new Map<string, string>();
+  for (const episode of episodes) {
+    const month = episodeMonth(episode);
+    if (!months.has(month)) {
+      months.set(month, lastmod(episode.createdAt));
+    }
+  }
+  for (const [month, monthLastmod] of months) {
+    entries.push({ name: `episodes-${month}`, lastmod: monthLastmod });
+  }
+
+  const sitemaps = entries.map((entry) => {
+    const lines = [`<loc>${escapeXml(`${baseUrl}${sitemapPath(entry.name)}`)}</loc>`];
+    if (entry.lastmod) {
+      lines.push(`<lastmod>${entry.lastmod}</lastmod>`);
+    }
+    return `  <sitemap>\n${lines.map((line) => `    ${line}`).join('\n')}\n  </sitemap>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps.join('\n')}
+</sitemapindex>
+`;
+}
+
+// A single sitemap from the index, or null for a month without episodes
+export function buildSitemap(name: SitemapName, context: SitemapContext): string | null {
+  const { baseUrl } = context;
+
+  switch (name) {
+    case 'pages':
+      return renderUrlset(pageUrls(context));
+    case 'news':
+      return renderUrlset(newsEpisodes(context).map((episode) => episodeUrl(context, episode, true)));
+    case 'tags':
+      return renderUrlset(context.tags.map((tag) => ({
+        loc: `${baseUrl}/tag/${tag.slug}`,
+        lastmod: lastmod(tag.latestEpisodeAt),
+        changefreq: 'weekly',
+        priority: 0.6,
+      })));
+    case 'hosts':
+      return renderUrlset(context.hosts.map((host) => ({
+        loc: `${baseUrl}/host/${host.slug}`,
+        lastmod: lastmod(host.latestEpisodeAt),
+        changefreq: 'weekly',
+        priority: 0.5,
+      })));
+    default: {
+      const month = name.replace('episodes-', '');
+      const episodes = context.episodes.filter((episode) => episodeMonth(episode) === month);
+      return episodes.length > 0
+        ? renderUrlset(episodes.map((episode) => episodeUrl(context, episode, false)))
+        : null;
+    }
+  }
+}
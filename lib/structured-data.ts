@@ -0,0 +1,121 @@
+import { audioMimeType } from './podcast-feed.js';
+import { absoluteUrl } from './page-template.js';
+import type { Episode, EpisodeSummary } from './types.js';
+
+const SERIES_NAME = 'Angle';
+const SERIES_DESCRIPTION = 'Stories worth listening.';
+
+export type JsonLd = Record<string, unknown>;
+
+// ISO 8601 duration, e.g. 1630 -> PT27M10S
+export function isoDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${secs || total === 0 ? `${secs}S` : ''}`;
+}
+
+function series(baseUrl: string): JsonLd {
+  return {
+    '@type': 'PodcastSeries',
+    '@id': `${baseUrl}/#series`,
+    name: SERIES_NAME,
+    url: `${baseUrl}/`,
+  };
+}
+
+// Home page: the site, its search, and the podcast it publishes
+export function homeJsonLd(baseUrl: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      {
+        '@type': 'WebSite',
+        '@id': `${baseUrl}/#website`,
+        name: SERIES_NAME,
+        url: `${baseUrl}/`,
+        potentialAction: {
+          '@type': 'SearchAction',
+          target: { '@type': 'EntryPoint', urlTemplate: `${baseUrl}/?q={search_term_string}` },
+          'query-input': 'required name=search_term_string',
+        },
+      },
+      {
+        ...series(baseUrl),
+        description: SERIES_DESCRIPTION,
+        image: `${baseUrl}/api/og-image`,
+        webFeed: `${baseUrl}/feed.xml`,
+        inLanguage: 'en',
+      },
+    ],
+  };
+}
+
+// Episode page: the episode and its audio, within the series. The transcript is
+// left out: the page body already prints it
+export function episodeJsonLd(episode: Episode, baseUrl: string): JsonLd {
+  const url = `${baseUrl}/episode/${episode.id}`;
+  const duration = episode.duration ? isoDuration(episode.duration) : undefined;
+
+  const audio: JsonLd | null = episode.audioUrl
+    ? {
+        '@type': 'AudioObject',
+        contentUrl: absoluteUrl(baseUrl, episode.audioUrl),
+        encodingFormat: audioMimeType(episode.audioUrl),
+        ...(duration && { duration }),
+      }
+    : null;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'PodcastEpisode',
+    '@id': `${url}#episode`,
+    url,
+    name: episode.title,
+    ...((episode.fullDescription || episode.description) && {
+      description: episode.fullDescription || episode.description,
+    }),
+    datePublished: new Date(episode.createdAt).toISOString(),
+    ...(duration && { timeRequired: duration }),
+    ...(episode.episodeNumber && { episodeNumber: episode.episodeNumber }),
+    ...(episode.coverImage && { image: absoluteUrl(baseUrl, episode.coverImage) }),
+    ...(episode.host && { author: { '@type': 'Person', name: episode.host } }),
+    ...(episode.category && { genre: episode.category }),
+    ...(episode.tags?.length && { keywords: episode.tags.join(', ') }),
+    ...(audio && { associatedMedia: audio }),
+    partOfSeries: series(baseUrl),
+    inLanguage: 'en',
+  };
+}
+
+export interface CollectionPageInput {
+  url: string;
+  name: string;
+  description: string;
+  // In the order the page shows them
+  episodes: EpisodeSummary[];
+}
+
+// Category, tag and host pages: a page listing episodes
+export function collectionJsonLd({ url, name, description, episodes }: CollectionPageInput, baseUrl: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CollectionPage',
+    '@id': url,
+    url,
+    name,
+    description,
+    isPartOf: { '@id': `${baseUrl}/#website` },
+    mainEntity: {
+      '@type': 'ItemList',
+      numberOfItems: episodes.length,
+      itemListElement: episodes.map((episode, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        url: `${baseUrl}/episode/${episode.id}`,
+        name: episode.title,
+      })),
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { fetchEpisodes } from './episodes.js';
+import { slugify } from './slug.js';
+import type { Episode } from './types.js';
+
+export interface Tag {
+  slug: string;
+  // Tag as written on episodes (the most common spelling when several differ)
+  name: string;
+  count: number;
+  latestEpisodeAt: string;
+}
+
+// Counts tags across episodes, merging spellings that share a slug
+export function collectTags(episodes: Episode[]): Tag[] {
+  const bySlug = new Map<string, { spellings: Map<string, number>; count: number; latestEpisodeAt: string }>();
+
+  for (const episode of episodes) {
+    const seen = new Set<string>();
+    for (const tag of episode.tags || []) {
+      const slug = slugify(tag);
+      if (!slug || seen.has(slug)) {
+        continue;
+      }
+      seen.add(slug);
+
+      const entry = bySlug.get(slug) || { spellings: new Map(), count: 0, latestEpisodeAt: episode.createdAt };
+      entry.count++;
+      entry.spellings.set(tag, (entry.spellings.get(tag) || 0) + 1);
+      if (Date.parse(episode.createdAt) > Date.parse(entry.latestEpisodeAt)) {
+        entry.latestEpisodeAt = episode.createdAt;
+      }
+      bySlug.set(slug, entry);
+    }
+  }
+
+  return [...bySlug.entries()]
+    .map(([slug, entry]) => ({
+      slug,
+      name: [...entry.spellings.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      count: entry.count,
+      latestEpisodeAt: entry.latestEpisodeAt,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Every tag used by a published episode, most used first
+export async function fetchTags(): Promise<Tag[]> {
+  return collectTags(await fetchEpisodes());
+}
+
+// Finds a tag by slug or by any spelling of its name
+export async function resolveTag(value: string): Promise<Tag | null> {
+  const slug = slugify(value);
+  return (await fetchTags()).find((tag) => tag.slug === slug) || null;
+}
+
+// Most recent episode carrying a tag
+export async function fetchMostRecentEpisodeByTag(tag: Tag): Promise<Episode | null> {
+  const episodes = await fetchEpisodes();
+  return episodes.find((episode) => episode.tags?.some((t) => slugify(t) === tag.slug)) || null;
+}
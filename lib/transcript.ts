@@ -0,0 +1,356 @@
+export type TranscriptFormat = 'txt' | 'vtt' | 'srt' | 'json';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['txt', 'vtt', 'srt', 'json'];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+export interface TranscriptCue {
+  // Seconds from the start of the audio
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  // Index of the paragraph the cue belongs to, for plain-text output
+  paragraph: number;
+}
+
+export interface Transcript {
+  // False when cue times are estimated from text length
+  timed: boolean;
+  cues: TranscriptCue[];
+}
+
+// Caption cues longer than this are split at sentence or word boundaries
+const MAX_CUE_CHARS = 120;
+
+// Untimed paragraphs without blank lines between them are grouped up to this size
+const MAX_PARAGRAPH_CHARS = 600;
+
+// Reading pace used to estimate cue times when the duration is unknown (~150 wpm)
+const CHARS_PER_SECOND = 15;
+
+// Timestamps such as 1:02, 01:02:03, 00:01:02.500 or 00:01:02,500
+const TIMESTAMP = String.raw`(?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?`;
+const CUE_TIMING_PATTERN = new RegExp(String.raw`^\s*(${TIMESTAMP})\s*-->\s*(${TIMESTAMP})`);
+const INLINE_TIMESTAMP_PATTERN = new RegExp(String.raw`^\s*[\[(]?(${TIMESTAMP})[\])]?\s*(?:[-–—:]\s+)?(.*)$`);
+
+// "Maya: ..." or "DANIEL OSEI: ..." at the start of a line
+const SPEAKER_PATTERN = /^([A-Z][\p{L}'.-]*(?: [A-Z][\p{L}'.-]*){0,2}):\s+(.+)$/u;
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction = '0'] = value.split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+function splitSpeaker(text: string): { speaker?: string; text: string } {
+  const match = text.match(SPEAKER_PATTERN);
+  return match ? { speaker: match[1], text: match[2] } : { text };
+}
+
+function withoutMarkup(text: string): string {
+  return text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Podcasting 2.0 JSON transcripts, or a bare array of segments
+function parseJsonTranscript(raw: string): TranscriptCue[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  const segments = Array.isArray(data)
+    ? data
+    : (data as { segments?: unknown })?.segments;
+  if (!Array.isArray(segments)) {
+    return null;
+  }
+
+  const cues: TranscriptCue[] = [];
+  for (const segment of segments as Record<string, unknown>[]) {
+    const start = Number(segment?.startTime ?? segment?.start);
+    const end = Number(segment?.endTime ?? segment?.end);
+    const text = segment?.body ?? segment?.text;
+    if (!Number.isFinite(start) || typeof text !== 'string' || !text.trim()) {
+      continue;
+    }
+    cues.push({
+      start,
+      end: Number.isFinite(end) ? end : start,
+      text: text.trim(),
+      ...(typeof segment.speaker === 'string' && segment.speaker && { speaker: segment.speaker }),
+      paragraph: 0,
+    });
+  }
+  return cues.length > 0 ? cues : null;
+}
+
+// WebVTT or SRT: blocks with a "start --> end" timing line
+function parseCueBlocks(raw: string): TranscriptCue[] | null {
+  const cues: TranscriptCue[] = [];
+
+  for (const block of raw.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => CUE_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) {
+      continue;
+    }
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING_PATTERN)!;
+    const body = lines.slice(timingIndex + 1).join(' ');
+    const voice = body.match(/^<v(?:\.[^ >]*)? ([^>]+)>/);
+    const text = withoutMarkup(body);
+    if (!text) {
+      continue;
+    }
+    cues.push({
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      ...(voice ? { speaker: voice[1].trim(), text } : splitSpeaker(text)),
+      paragraph: 0,
+    });
+  }
+  return cues.length > 0 ? cues : null;
+}
+
+// Lines that start with a timestamp, e.g. "[00:01:23] Maya: Welcome back"
+function parseTimestampedLines(raw: string, duration: number | null): TranscriptCue[] | null {
+  const lines = raw.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const matches = lines.map((line) => line.match(INLINE_TIMESTAMP_PATTERN));
+  const timedCount = matches.filter(Boolean).length;
+
+  // A few stray times in prose do not make a timed transcript
+  if (timedCount < 2 || timedCount < lines.length / 2) {
+    return null;
+  }
+
+  const parsed: TranscriptCue[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const match = matches[i];
+    if (match) {
+      parsed.push({ start: parseTimestamp(match[1]), end: 0, ...splitSpeaker(match[2]), paragraph: 0 });
+    } else if (parsed.length > 0) {
+      // Untimed lines continue the previous cue
+      const previous = parsed[parsed.length - 1];
+      Object.assign(previous, previous.text ? { text: `${previous.text} ${lines[i]}` } : splitSpeaker(lines[i]));
+    }
+  }
+
+  const cues = parsed.filter((cue) => cue.text);
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    cue.end = next
+      ? next.start
+      : round(Math.max(duration ?? 0, cue.start + cue.text.length / CHARS_PER_SECOND));
+  });
+  return cues;
+}
+
+// Consecutive cues by the same speaker read as one paragraph, up to a readable length
+function assignParagraphs(cues: TranscriptCue[]): TranscriptCue[] {
+  let paragraph = 0;
+  let length = 0;
+  cues.forEach((cue, index) => {
+    if (index > 0 && (cue.speaker !== cues[index - 1].speaker || length + cue.text.length > MAX_PARAGRAPH_CHARS)) {
+      paragraph++;
+      length = 0;
+    }
+    cue.paragraph = paragraph;
+    length += cue.text.length + 1;
+  });
+  return cues;
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [text])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+// Splits text into caption-sized chunks, keeping sentences together where possible
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string) => {
+    if (current && current.length + piece.length + 1 > MAX_CUE_CHARS) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current} ${piece}` : piece;
+    }
+  };
+
+  for (const sentence of splitSentences(text)) {
+    if (sentence.length <= MAX_CUE_CHARS) {
+      push(sentence);
+      continue;
+    }
+    for (const word of sentence.split(/\s+/)) {
+      push(word);
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+function splitParagraphs(raw: string): string[] {
+  const normalized = raw.replace(/\r\n?/g, '\n').trim();
+  const blocks = /\n\s*\n/.test(normalized)
+    ? normalized.split(/\n\s*\n/)
+    : normalized.split('\n');
+  const paragraphs = blocks.map((block) => block.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  if (paragraphs.length > 1) {
+    return paragraphs;
+  }
+
+  // One unbroken block: group sentences into readable paragraphs
+  const grouped: string[] = [];
+  for (const sentence of splitSentences(paragraphs[0] || '')) {
+    const last = grouped[grouped.length - 1];
+    if (last && last.length + sentence.length + 1 <= MAX_PARAGRAPH_CHARS) {
+      grouped[grouped.length - 1] = `${last} ${sentence}`;
+    } else {
+      grouped.push(sentence);
+    }
+  }
+  return grouped;
+}
+
+// Paragraph segmentation with times spread over the audio by text length
+function segmentUntimed(raw: string, duration: number | null): TranscriptCue[] {
+  const pieces: Omit<TranscriptCue, 'start' | 'end'>[] = [];
+
+  splitParagraphs(raw).forEach((paragraph, index) => {
+    const { speaker, text } = splitSpeaker(paragraph);
+    for (const chunk of chunkText(text)) {
+      pieces.push({ text: chunk, ...(speaker && { speaker }), paragraph: index });
+    }
+  });
+
+  const totalChars = pieces.reduce((sum, piece) => sum + piece.text.length, 0);
+  const secondsPerChar = duration && totalChars > 0 ? duration / totalChars : 1 / CHARS_PER_SECOND;
+
+  let start = 0;
+  return pieces.map((piece) => {
+    const end = start + piece.text.length * secondsPerChar;
+    const cue = { ...piece, start: round(start), end: round(end) };
+    start = end;
+    return cue;
+  });
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Parses a stored transcript into cues. JSON segments, WebVTT/SRT and
+ * timestamped lines keep their times; anything else is segmented into
+ * paragraphs with estimated times.
+ */
+export function parseTranscript(raw: string, duration?: number | null): Transcript {
+  const knownDuration = duration && duration > 0 ? duration : null;
+  const timedCues =
+    parseJsonTranscript(raw) ||
+    parseCueBlocks(raw) ||
+    parseTimestampedLines(raw, knownDuration);
+
+  if (timedCues) {
+    return { timed: true, cues: assignParagraphs(timedCues.sort((a, b) => a.start - b.start)) };
+  }
+  return { timed: false, cues: segmentUntimed(raw, knownDuration) };
+}
+
+function formatClock(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+// Cue text may not contain the timing arrow or blank lines
+function cueText(text: string): string {
+  return text.replace(/-->/g, '->').replace(/\s*\n\s*/g, ' ');
+}
+
+function toPlainText({ cues }: Transcript): string {
+  const paragraphs: string[] = [];
+  let current: TranscriptCue[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      const text = current.map((cue) => cue.text).join(' ');
+      paragraphs.push(current[0].speaker ? `${current[0].speaker}: ${text}` : text);
+    }
+    current = [];
+  };
+
+  for (const cue of cues) {
+    if (current.length > 0 && cue.paragraph !== current[0].paragraph) {
+      flush();
+    }
+    current.push(cue);
+  }
+  flush();
+  return `${paragraphs.join('\n\n')}\n`;
+}
+
+function toWebVtt({ cues }: Transcript): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const blocks = cues.map((cue, index) => {
+    const text = escape(cueText(cue.text));
+    return `${index + 1}\n${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${
+      cue.speaker ? `<v ${escape(cue.speaker)}>${text}` : text
+    }`;
+  });
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+function toSrt({ cues }: Transcript): string {
+  const blocks = cues.map((cue, index) => {
+    const text = cueText(cue.text);
+    return `${index + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${
+      cue.speaker ? `${cue.speaker}: ${text}` : text
+    }`;
+  });
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// Podcasting 2.0 JSON transcript (https://github.com/Podcastindex-org/podcast-namespace)
+function toJsonTranscript({ cues }: Transcript): string {
+  return JSON.stringify({
+    version: '1.0.0',
+    segments: cues.map((cue) => ({
+      ...(cue.speaker && { speaker: cue.speaker }),
+      startTime: cue.start,
+      endTime: cue.end,
+      body: cue.text,
+    })),
+  });
+}
+
+export function formatTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'txt':
+      return toPlainText(transcript);
+    case 'vtt':
+      return toWebVtt(transcript);
+    case 'srt':
+      return toSrt(transcript);
+    case 'json':
+      return toJsonTranscript(transcript);
+  }
+}
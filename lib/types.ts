@@ -0,0 +1,55 @@
+// Types
+export interface Episode {
+  id: string;
+  title: string;
+  description: string | null;
+  coverImage: string | null;
+  createdAt: string;
+  category: string | null;
+  duration?: number | null;
+  audioUrl?: string | null;
+  transcript?: string | null;
+  host?: string | null;
+  episodeNumber?: number | null;
+  tags?: string[] | null;
+  fullDescription?: string | null;
+  chapters?: Chapter[] | null;
+}
+
+// A section of an episode, as in Podcasting 2.0 chapters
+export interface Chapter {
+  // Seconds from the start of the audio
+  startTime: number;
+  title: string;
+  img?: string;
+  url?: string;
+}
+
+// Episode as listed by /api/episodes, without the transcript
+export type EpisodeSummary = Omit<Episode, 'transcript'>;
+
+export interface Pagination {
+  limit: number;
+  total: number;
+  hasMore: boolean;
+  // Pass as `cursor` to fetch the next page
+  nextCursor: string | null;
+}
+
+export type EngagementType = 'play' | 'complete' | 'share';
+
+// One listener interaction with an episode
+export interface EngagementEvent {
+  episodeId: string;
+  type: EngagementType;
+  createdAt: string;
+  // Same for repeats by one listener within a short window (api/events.ts)
+  dedupeKey?: string;
+}
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  pagination?: Pagination;
+}
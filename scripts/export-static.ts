@@ -0,0 +1,336 @@
+/*
+ * Pre-renders the site into a static directory by calling the same handlers
+ * the deployment uses, routed as vercel.json routes them (scripts/local-runtime.ts),
+ * against the configured data source:
+ *
+ *   npm run export -- --out dist --base-url https://archive.newsangle.co
+ *
+ * The base URL defaults to the configured SITE_URL (lib/config.ts). robots.txt
+ * only lets crawlers in for production, so a mirror that should be indexed is
+ * exported with NODE_ENV=production and SITE_URL set.
+ *
+ * On a mirror the client reads the API responses it needs from /data. Engagement
+ * events and oEmbed need functions and are left out, and search matches words in
+ * the catalog's titles and descriptions rather than transcripts.
+
+ * Pages are written as <path>/index.html and everything else at its own path.
+ * export-manifest.json lists every file with its status and content type, for
+ * hosting extensionless files (OG images) and for diffing two exports.
+ */
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { cp, mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { fetchCategoryRegistry } from '../lib/categories.js';
+import { getConfig, setConfig } from '../lib/config.js';
+import { MAX_PAGE_SIZE } from '../lib/episode-query.js';
+import { fetchEpisodes, type ApiResponse } from '../lib/episodes.js';
+import { FEED_FORMATS } from '../lib/feeds.js';
+import { fetchHosts } from '../lib/hosts.js';
+import { MIRROR_HOME_OG_IMAGE } from '../lib/og-cards.js';
+import { fetchTags } from '../lib/tags.js';
+import { loadHandler, loadLocalRoutes, resolveLocalRequest, type LocalRoutes } from './local-runtime.js';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+// The client asks for this many related episodes in the story modal,
+// and for this many episodes per filter
+const RELATED_LIMIT = '4';
+const CLIENT_PAGE_SIZE = '48';
+
+interface ExportRoute {
+  // Public path, as linked from the site; vercel.json routes it to its function
+  path: string;
+  query?: Record<string, string>;
+  // Where the mirror serves it, when not at `path`: API responses the client
+  // reads on a mirror are written under /data (see public/app.html)
+  file?: string;
+  // Follow pagination.nextCursor and write every page's data as one response
+  allPages?: boolean;
+}
+
+interface ExportedFile {
+  path: string;
+  file: string;
+  status: number;
+  contentType: string;
+  bytes: number;
+}
+
+interface CapturedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+interface ExportOptions {
+  outDir: string;
+  // The configured site URL when not given
+  baseUrl?: string;
+}
+
+function parseArgs(argv: string[]): ExportOptions {
+  const options: ExportOptions = { outDir: join(ROOT, 'dist') };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    if (argv[i] === '--out' && value) {
+      options.outDir = resolve(value);
+      i++;
+    } else if (argv[i] === '--base-url' && value) {
+      options.baseUrl = value.replace(/\/$/, '');
+      i++;
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+// Calls the function the route reaches and records what it sends
+async function invoke(routes: LocalRoutes, route: ExportRoute, baseUrl: string): Promise<CapturedResponse> {
+  const base = new URL(baseUrl);
+  const search = new URLSearchParams(route.query).toString();
+  const url = `${route.path}${search ? `?${search}` : ''}`;
+  const resolved = await resolveLocalRequest(routes, new URL(url, base));
+  if (resolved.kind !== 'api') {
+    throw new Error(`No function serves ${route.path}`);
+  }
+
+  const req = {
+    method: 'GET',
+    url,
+    headers: { host: base.host, 'x-forwarded-proto': base.protocol.replace(':', '') },
+    query: resolved.query,
+    cookies: {},
+  };
+
+  const captured: CapturedResponse = { status: 200, headers: {}, body: Buffer.alloc(0) };
+  let ended = false;
+  const res = {
+    get statusCode() {
+      return captured.status;
+    },
+    get headersSent() {
+      return ended;
+    },
+    setHeader(name: string, value: string | number | string[]) {
+      captured.headers[name.toLowerCase()] = String(value);
+      return res;
+    },
+    getHeader(name: string) {
+      return captured.headers[name.toLowerCase()];
+    },
+    status(code: number) {
+      captured.status = code;
+      return res;
+    },
+    json(data: unknown) {
+      captured.headers['content-type'] ??= 'application/json; charset=utf-8';
+      return res.end(JSON.stringify(data));
+    },
+    send(data: string | Buffer) {
+      return res.end(data);
+    },
+    redirect(statusOrUrl: number | string, url?: string) {
+      captured.status = typeof statusOrUrl === 'number' ? statusOrUrl : 307;
+      captured.headers.location = typeof statusOrUrl === 'string' ? statusOrUrl : url || '/';
+      return res.end();
+    },
+    end(data?: string | Buffer) {
+      ended = true;
+      captured.body = data === undefined ? Buffer.alloc(0) : Buffer.from(data);
+      return res;
+    },
+  };
+
+  const handler = await loadHandler(resolved.route);
+  await handler(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return captured;
+}
+
+// Invokes a route, or every page of a paginated JSON route when it asks for all of them
+async function capture(routes: LocalRoutes, route: ExportRoute, baseUrl: string): Promise<CapturedResponse> {
+  if (!route.allPages) {
+    return invoke(routes, route, baseUrl);
+  }
+
+  const data: unknown[] = [];
+  let cursor: string | null = null;
+  do {
+    const query: Record<string, string> = { ...route.query, ...(cursor && { cursor }) };
+    const response = await invoke(routes, { ...route, query }, baseUrl);
+    if (response.status !== 200) {
+      return response;
+    }
+    const page = JSON.parse(response.body.toString('utf-8')) as ApiResponse<unknown[]>;
+    data.push(...(page.data || []));
+    cursor = page.pagination?.nextCursor ?? null;
+  } while (cursor);
+
+  return {
+    status: 200,
+    headers: { 'content-type': 'application/json; charset=utf-8' },
+    body: Buffer.from(JSON.stringify({ success: true, data } satisfies ApiResponse<unknown[]>)),
+  };
+}
+
+// Every page, feed, sitemap and image the site links to
+async function collectRoutes(): Promise<ExportRoute[]> {
+  const [registry, episodes, tags, hosts] = await Promise.all([
+    fetchCategoryRegistry(),
+    fetchEpisodes(),
+    fetchTags(),
+    fetchHosts(),
+  ]);
+
+  const routes: ExportRoute[] = [
+    { path: '/' },
+    { path: '/feed.xml' },
+    { path: '/robots.txt' },
+    { path: '/api/og-image', file: MIRROR_HOME_OG_IMAGE },
+    // The client's gallery filters, and the episodes each one shows
+    { path: '/api/categories', file: '/data/categories.json' },
+    { path: '/api/episodes', query: { limit: CLIENT_PAGE_SIZE }, file: '/data/episodes/all.json' },
+    // /api/search needs a function, so a mirror's client searches the whole catalog itself
+    { path: '/api/episodes', query: { limit: String(MAX_PAGE_SIZE) }, file: '/data/catalog.json', allPages: true },
+  ];
+  for (const format of FEED_FORMATS) {
+    routes.push({ path: format === 'json' ? '/feed.json' : '/atom.xml' });
+  }
+
+  for (const category of registry.all) {
+    const { slug } = category;
+    const filter: Record<string, string> = category.kind === 'category'
+      ? { category: slug }
+      : { sort: slug === 'popular' ? 'popular' : 'newest' };
+    routes.push(
+      { path: `/${slug}` },
+      { path: '/api/episodes', query: { limit: CLIENT_PAGE_SIZE, ...filter }, file: `/data/episodes/${slug}.json` },
+      { path: `/api/og-image/category/${slug}` },
+      { path: `/${slug}/feed.json` },
+      { path: `/${slug}/atom.xml` },
+    );
+    // Special filters have no podcast feed
+    if (category.kind === 'category') {
+      routes.push({ path: `/${slug}/feed.xml` });
+    }
+  }
+
+  for (const episode of episodes) {
+    routes.push(
+      { path: `/episode/${episode.id}` },
+      { path: `/embed/episode/${episode.id}` },
+      { path: `/api/og-image/${episode.id}` },
+      { path: `/api/episodes/${episode.id}`, file: `/data/episode/${episode.id}.json` },
+      {
+        path: `/api/episodes/${episode.id}/related`,
+        query: { limit: RELATED_LIMIT },
+        file: `/data/related/${episode.id}.json`,
+      },
+    );
+  }
+
+  for (const tag of tags) {
+    routes.push(
+      { path: `/tag/${tag.slug}` },
+      { path: '/api/episodes', query: { limit: CLIENT_PAGE_SIZE, tag: tag.slug }, file: `/data/episodes/tag/${tag.slug}.json` },
+      { path: `/api/og-image/tag/${tag.slug}` },
+      { path: `/tag/${tag.slug}/feed.json` },
+      { path: `/tag/${tag.slug}/atom.xml` },
+    );
+  }
+
+  for (const host of hosts) {
+    routes.push(
+      { path: `/host/${host.slug}` },
+      { path: '/api/episodes', query: { limit: CLIENT_PAGE_SIZE, host: host.slug }, file: `/data/episodes/host/${host.slug}.json` },
+    );
+  }
+
+  return routes;
+}
+
+// The sitemaps listed by the rendered sitemap index
+function sitemapRoutes(index: string): ExportRoute[] {
+  return [...index.matchAll(/<loc>[^<]*\/sitemaps\/([^<]+)<\/loc>/g)].map(([, file]) => ({
+    path: `/sitemaps/${file}`,
+  }));
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'application/json': '.json',
+  'application/xml': '.xml',
+  'text/xml': '.xml',
+};
+
+// Pages become directories; a path that is also a directory
+// keeps its content as an index file inside it
+function outputFile(path: string, contentType: string, directories: Set<string>): string {
+  if (contentType.startsWith('text/html')) {
+    return join(path, 'index.html');
+  }
+  if (directories.has(path)) {
+    return join(path, `index${EXTENSIONS[contentType.split(';')[0]] || ''}`);
+  }
+  return path;
+}
+
+async function exportSite({ outDir, baseUrl = getConfig().siteUrl }: ExportOptions): Promise<number> {
+  // Pages link to the export's own origin, whatever host the handlers are told they are on,
+  // and leave out what only works with functions behind them
+  setConfig({ ...getConfig(), siteUrl: baseUrl, staticMirror: true });
+  await rm(outDir, { recursive: true, force: true });
+  await mkdir(outDir, { recursive: true });
+  await cp(join(ROOT, 'public'), outDir, { recursive: true });
+
+  const localRoutes = await loadLocalRoutes(ROOT);
+  const routes = await collectRoutes();
+  const sitemapIndex = await invoke(localRoutes, { path: '/sitemap.xml' }, baseUrl);
+  routes.push({ path: '/sitemap.xml' }, ...sitemapRoutes(sitemapIndex.body.toString('utf-8')));
+
+  const directories = new Set(routes.flatMap(({ path, file }) =>
+    (file || path).split('/').slice(1, -1).map((_, i, parts) => `/${parts.slice(0, i + 1).join('/')}`)
+  ));
+
+  const manifest: ExportedFile[] = [];
+  const failures: string[] = [];
+
+  for (const route of routes) {
+    try {
+      const response = await capture(localRoutes, route, baseUrl);
+      if (response.status !== 200) {
+        failures.push(`${route.path}: ${response.status}${response.headers.location ? ` -> ${response.headers.location}` : ''}`);
+        continue;
+      }
+
+      const contentType = response.headers['content-type'] || 'application/octet-stream';
+      const file = route.file || outputFile(route.path, contentType, directories);
+      await mkdir(join(outDir, dirname(file)), { recursive: true });
+      await writeFile(join(outDir, file), response.body);
+      manifest.push({ path: route.file || route.path, file: file.slice(1), status: response.status, contentType, bytes: response.body.length });
+    } catch (error) {
+      failures.push(`${route.path}: ${(error as Error).message}`);
+    }
+  }
+
+  await writeFile(
+    join(outDir, 'export-manifest.json'),
+    JSON.stringify({ baseUrl, files: manifest.sort((a, b) => a.path.localeCompare(b.path)) }, null, 2)
+  );
+
+  console.log(`Exported ${manifest.length} of ${routes.length} routes to ${outDir}`);
+  for (const failure of failures) {
+    console.error(`  failed ${failure}`);
+  }
+  return failures.length;
+}
+
+exportSite(parseArgs(process.argv.slice(2)))
+  .then((failures) => {
+    process.exitCode = failures > 0 ? 1 : 0;
+  })
+  .catch((error) => {
+    console.error('Export failed:', error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,335 @@
+/*
+ * Local stand-in for the Vercel runtime: routes a request the way the
+ * deployment does and calls the handler with Vercel's request and response
+ * helpers. Used by dev-server.js.
+ *
+ * Routing follows Vercel's order: files in public/, then functions under api/
+ * (with [param] segments), then the rewrites in vercel.json, first match wins.
+ */
+import type { VercelRequest, VercelRequestQuery, VercelResponse } from '@vercel/node';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, relative, resolve, sep } from 'path';
+import { pathToFileURL } from 'url';
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+export interface ApiRoute {
+  // Function path as requested, e.g. /api/episodes/[id]
+  path: string;
+  file: string;
+  segments: string[];
+}
+
+interface Rewrite {
+  source: string;
+  destination: string;
+  pattern: RegExp;
+  // Names of the source's parameters, in capture order (unnamed groups are $1, $2, ...)
+  params: string[];
+}
+
+export interface LocalRoutes {
+  root: string;
+  apiRoutes: ApiRoute[];
+  rewrites: Rewrite[];
+}
+
+export type ResolvedRequest =
+  | { kind: 'static'; file: string }
+  | { kind: 'api'; route: ApiRoute; query: VercelRequestQuery }
+  | { kind: 'bad-request' }
+  | { kind: 'not-found' };
+
+const HANDLER_EXTENSIONS = ['.ts', '.tsx', '.js'];
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map((entry) => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(path) : Promise.resolve([path]);
+  }));
+  return files.flat();
+}
+
+function isDynamic(segment: string): boolean {
+  return /^\[[^\]]+\]$/.test(segment);
+}
+
+// Every function under api/, static segments ahead of [param] ones as Vercel matches them
+async function discoverApiRoutes(root: string): Promise<ApiRoute[]> {
+  const files = await listFiles(join(root, 'api'));
+  const routes = files
+    .filter((file) => HANDLER_EXTENSIONS.some((extension) => file.endsWith(extension)) && !file.endsWith('.d.ts'))
+    .map((file) => {
+      const segments = ['api', ...relative(join(root, 'api'), file).replace(/\.[^.]+$/, '').split(sep)];
+      if (segments[segments.length - 1] === 'index') {
+        segments.pop();
+      }
+      return { path: `/${segments.join('/')}`, file, segments };
+    });
+
+  const rank = (route: ApiRoute) => route.segments.map((segment) => (isDynamic(segment) ? '1' : '0')).join('');
+  return routes.sort((a, b) => rank(a).localeCompare(rank(b)));
+}
+
+// Compiles the path-to-regexp subset vercel.json uses: :name, :name* and (regex) groups
+function compileRewrite(source: string, destination: string): Rewrite {
+  const params: string[] = [];
+  let unnamed = 0;
+  const pattern = source.replace(/:(\w+)(\*)?|\(([^)]*)\)|[.+?^${}|[\]\\]/g, (token, name, star, group) => {
+    if (name) {
+      params.push(name);
+      return star ? '(.*)' : '([^/]+)';
+    }
+    if (group !== undefined) {
+      params.push(String(++unnamed));
+      return `(${group})`;
+    }
+    return `\\${token}`;
+  });
+  return { source, destination, pattern: new RegExp(`^${pattern}/?$`), params };
+}
+
+export async function loadLocalRoutes(root: string): Promise<LocalRoutes> {
+  const config = JSON.parse(await readFile(join(root, 'vercel.json'), 'utf-8')) as {
+    rewrites?: { source: string; destination: string }[];
+  };
+  return {
+    root,
+    apiRoutes: await discoverApiRoutes(root),
+    rewrites: (config.rewrites || []).map(({ source, destination }) => compileRewrite(source, destination)),
+  };
+}
+
+// The function for a path, with its [param] values; a destination may name the segment itself
+function matchApiRoute(routes: ApiRoute[], pathname: string): { route: ApiRoute; params: Record<string, string> } | null {
+  const parts = pathname.replace(/\/$/, '').split('/').slice(1);
+
+  for (const route of routes) {
+    if (route.segments.length !== parts.length) {
+      continue;
+    }
+    const params: Record<string, string> = {};
+    const matches = route.segments.every((segment, i) => {
+      if (segment === parts[i]) {
+        return true;
+      }
+      if (isDynamic(segment) && parts[i]) {
+        params[segment.slice(1, -1)] = decodeURIComponent(parts[i]);
+        return true;
+      }
+      return false;
+    });
+    if (matches) {
+      return { route, params };
+    }
+  }
+  return null;
+}
+
+// Vercel hands repeated parameters to functions as arrays
+function toQuery(params: URLSearchParams): VercelRequestQuery {
+  const query: VercelRequestQuery = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// A file in public/, refusing paths that climb out of it
+async function findStaticFile(root: string, pathname: string): Promise<string | null> {
+  const publicDir = join(root, 'public');
+  const file = resolve(publicDir, `.${decodeURIComponent(pathname)}`);
+  if (!file.startsWith(publicDir + sep)) {
+    return null;
+  }
+  return (await isFile(file)) ? file : null;
+}
+
+// Where the deployment would send a request for `url` (path and query); a path
+// with a malformed %-escape is a bad request, as it is on Vercel
+export async function resolveLocalRequest(routes: LocalRoutes, url: URL): Promise<ResolvedRequest> {
+  try {
+    return await resolveRoute(routes, url);
+  } catch (error) {
+    if (error instanceof URIError) {
+      return { kind: 'bad-request' };
+    }
+    throw error;
+  }
+}
+
+async function resolveRoute(routes: LocalRoutes, url: URL): Promise<ResolvedRequest> {
+  const staticFile = await findStaticFile(routes.root, url.pathname);
+  if (staticFile) {
+    return { kind: 'static', file: staticFile };
+  }
+
+  const direct = matchApiRoute(routes.apiRoutes, url.pathname);
+  if (direct) {
+    return { kind: 'api', route: direct.route, query: { ...toQuery(url.searchParams), ...direct.params } };
+  }
+
+  for (const rewrite of routes.rewrites) {
+    const match = url.pathname.match(rewrite.pattern);
+    if (!match) {
+      continue;
+    }
+
+    const values = Object.fromEntries(rewrite.params.map((name, i) => [name, match[i + 1] ?? '']));
+    const used = new Set<string>();
+    const target = rewrite.destination.replace(/:(\w+)|\$(\d+)/g, (token, name, index) => {
+      const key = name || index;
+      if (!(key in values)) {
+        return token;
+      }
+      used.add(key);
+      return values[key];
+    });
+    const destination = new URL(target, url);
+
+    // Named source parameters the destination does not use still reach the function
+    const query = new URLSearchParams(url.searchParams);
+    for (const [key, value] of destination.searchParams) {
+      query.set(key, value);
+    }
+    for (const name of rewrite.params) {
+      if (!used.has(name) && !/^\d+$/.test(name)) {
+        query.set(name, decodeURIComponent(values[name]));
+      }
+    }
+
+    const file = await findStaticFile(routes.root, destination.pathname);
+    if (file) {
+      return { kind: 'static', file };
+    }
+    const api = matchApiRoute(routes.apiRoutes, destination.pathname);
+    return api
+      ? { kind: 'api', route: api.route, query: { ...toQuery(query), ...api.params } }
+      : { kind: 'not-found' };
+  }
+
+  return { kind: 'not-found' };
+}
+
+const handlers = new Map<string, Handler>();
+
+export async function loadHandler(route: ApiRoute): Promise<Handler> {
+  let handler = handlers.get(route.file);
+  if (!handler) {
+    handler = (await import(pathToFileURL(route.file).href)).default as Handler;
+    handlers.set(route.file, handler);
+  }
+  return handler;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export class BodyParseError extends Error {}
+
+// Parsed as Vercel does: JSON, form fields, text, or the raw bytes
+function parseBody(body: Buffer, contentType: string | undefined): unknown {
+  if (body.length === 0) {
+    return undefined;
+  }
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (type === 'application/json') {
+    try {
+      return JSON.parse(body.toString('utf-8'));
+    } catch {
+      throw new BodyParseError('Invalid JSON');
+    }
+  }
+  if (type === 'application/x-www-form-urlencoded') {
+    return toQuery(new URLSearchParams(body.toString('utf-8')));
+  }
+  if (type === 'text/plain') {
+    return body.toString('utf-8');
+  }
+  return body;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header || '').split(';')) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+// Adds Vercel's query, cookies and body to the incoming request
+export async function toVercelRequest(req: IncomingMessage, query: VercelRequestQuery): Promise<VercelRequest> {
+  const body = parseBody(await readBody(req), req.headers['content-type']);
+  return Object.assign(req, {
+    query,
+    cookies: parseCookies(req.headers.cookie),
+    body,
+  }) as VercelRequest;
+}
+
+// Adds Vercel's status, send, json and redirect helpers to the outgoing response
+export function toVercelResponse(res: ServerResponse): VercelResponse {
+  const response = res as VercelResponse;
+
+  response.status = (code: number) => {
+    res.statusCode = code;
+    return response;
+  };
+
+  response.send = (body: unknown) => {
+    if (body === null || body === undefined) {
+      res.end();
+    } else if (Buffer.isBuffer(body)) {
+      if (!res.hasHeader('Content-Type')) {
+        res.setHeader('Content-Type', 'application/octet-stream');
+      }
+      res.setHeader('Content-Length', body.length);
+      res.end(body);
+    } else if (typeof body === 'object') {
+      return response.json(body);
+    } else {
+      const text = String(body);
+      if (!res.hasHeader('Content-Type')) {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      }
+      res.setHeader('Content-Length', Buffer.byteLength(text));
+      res.end(text);
+    }
+    return response;
+  };
+
+  response.json = (body: unknown) => {
+    if (!res.hasHeader('Content-Type')) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    }
+    return response.send(JSON.stringify(body));
+  };
+
+  response.redirect = ((statusOrUrl: number | string, url?: string) => {
+    res.statusCode = typeof statusOrUrl === 'number' ? statusOrUrl : 307;
+    res.setHeader('Location', typeof statusOrUrl === 'string' ? statusOrUrl : url || '/');
+    res.end();
+    return response;
+  }) as VercelResponse['redirect'];
+
+  return response;
+}
@@ -0,0 +1,25 @@
+-- Listener engagement (plays, completions, shares) behind the "popular" ranking.
+-- Scores are aggregated in lib/popularity.ts from the last few weeks of events.
+
+create table if not exists public.episode_events (
+  id bigint generated always as identity primary key,
+  episode_id uuid not null references public.episodes (id) on delete cascade,
+  type text not null check (type in ('play', 'complete', 'share')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists episode_events_created_at_idx
+  on public.episode_events (created_at);
+
+alter table public.episode_events enable row level security;
+
+-- The API uses the anon key: it may append events and read them back, nothing else
+create policy "anon can record engagement"
+  on public.episode_events for insert
+  to anon
+  with check (type in ('play', 'complete', 'share'));
+
+create policy "anon can read engagement"
+  on public.episode_events for select
+  to anon
+  using (true);
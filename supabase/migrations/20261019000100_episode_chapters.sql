@@ -0,0 +1,6 @@
+-- Chapters within an episode, in the Podcasting 2.0 chapters shape:
+-- [{ "startTime": 0, "title": "Intro", "img": "https://...", "url": "https://..." }]
+-- Rows are validated when read (lib/episode-row.ts); malformed chapters are skipped.
+
+alter table public.episodes
+  add column if not exists chapters jsonb;
@@ -0,0 +1,39 @@
+-- Engagement feeds the public "popular" ranking, so the anon key may no longer
+-- touch it. The API records events with the service-role key (which bypasses
+-- RLS) and reads back one decayed score per episode instead of every event.
+
+drop policy if exists "anon can record engagement" on public.episode_events;
+drop policy if exists "anon can read engagement" on public.episode_events;
+
+-- Hash of listener, episode, type and hour (api/events.ts); repeats are ignored
+alter table public.episode_events
+  add column if not exists dedupe_key text;
+
+create unique index if not exists episode_events_dedupe_key_idx
+  on public.episode_events (dedupe_key);
+
+-- score = Σ weight(type) · 0.5^(age / half-life), as in lib/popularity.ts
+create or replace function public.episode_popularity_scores(
+  since timestamptz,
+  half_life_days double precision,
+  weights jsonb
+)
+returns table (episode_id uuid, score double precision)
+language sql
+stable
+as $$
+  select
+    e.episode_id,
+    sum(
+      coalesce((weights ->> e.type)::double precision, 0)
+      * power(0.5, greatest(0, extract(epoch from now() - e.created_at)) / (half_life_days * 86400))
+    ) as score
+  from public.episode_events e
+  where e.created_at >= since
+  group by e.episode_id
+$$;
+
+revoke execute on function public.episode_popularity_scores(timestamptz, double precision, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.episode_popularity_scores(timestamptz, double precision, jsonb)
+  to service_role;
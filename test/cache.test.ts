@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { cached, invalidateCache } from '../lib/cache.js';
+
+const OPTIONS = { ttlMs: 60_000, staleMs: 600_000, nullTtlMs: 5_000 };
+
+describe('cached', () => {
+  afterEach(() => {
+    invalidateCache();
+    mock.timers.reset();
+  });
+
+  it('keeps a null result only for nullTtlMs, with no stale window', async () => {
+    mock.timers.enable({ apis: ['Date'] });
+    let calls = 0;
+    const loader = async () => (++calls === 1 ? null : 'found');
+
+    assert.equal(await cached('lookup', loader, OPTIONS), null);
+    assert.equal(await cached('lookup', loader, OPTIONS), null);
+    mock.timers.tick(5_001);
+    assert.equal(await cached('lookup', loader, OPTIONS), 'found');
+    assert.equal(calls, 2);
+  });
+
+  it('does not store a failed load', async () => {
+    let calls = 0;
+    const loader = async () => {
+      if (++calls === 1) {
+        throw new Error('database unavailable');
+      }
+      return 'found';
+    };
+
+    await assert.rejects(cached('lookup', loader, OPTIONS), /database unavailable/);
+    assert.equal(await cached('lookup', loader, OPTIONS), 'found');
+  });
+});
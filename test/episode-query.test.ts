@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeCursor, encodeCursor, InvalidQueryError } from '../lib/episode-query.js';
+
+const ID = '5b0f6a8e-1c3d-4e2a-9f41-0a7d2c9e1b01';
+
+function craft(payload: object): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+describe('decodeCursor', () => {
+  it('reads back the cursors it encodes', () => {
+    for (const createdAt of ['2025-09-02T08:00:00Z', '2025-09-02T08:00:00.123456+00:00']) {
+      assert.deepEqual(decodeCursor(encodeCursor('newest', { createdAt, id: ID }), 'newest'), {
+        cursor: { createdAt, id: ID },
+        offset: 0,
+      });
+    }
+    assert.deepEqual(decodeCursor(encodeCursor('popular', 48), 'popular'), { cursor: null, offset: 48 });
+  });
+
+  it('rejects positions that could add PostgREST filter clauses', () => {
+    const hostile = [
+      { s: 'newest', t: '2025-09-02T08:00:00Z",status.neq."completed', i: ID },
+      { s: 'newest', t: '2025-09-02T08:00:00Z', i: `${ID}"),status.neq.(completed` },
+      { s: 'newest', t: 'yesterday', i: ID },
+      { s: 'newest', t: '2025-13-45T08:00:00Z', i: ID },
+      { s: 'newest', t: '2025-09-02T08:00:00Z', i: 'ep-1' },
+      { s: 'oldest', t: '2025-09-02T08:00:00Z', i: ID },
+    ];
+    for (const payload of hostile) {
+      assert.throws(() => decodeCursor(craft(payload), 'newest'), InvalidQueryError);
+    }
+    assert.throws(() => decodeCursor('not a cursor', 'newest'), InvalidQueryError);
+  });
+});
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { escapeHtml, html, rawHtml } from '../lib/html.js';
+
+describe('escapeHtml', () => {
+  it('escapes every character that can end text or an attribute value', () => {
+    assert.equal(
+      escapeHtml(`"><script>alert('x')</script> & more`),
+      '&quot;&gt;&lt;script&gt;alert(&#039;x&#039;)&lt;/script&gt; &amp; more'
+    );
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated values, including inside arrays', () => {
+    const title = '"><script>alert(1)</script>';
+    assert.equal(
+      html`<a title="${title}">${[title, '&']}</a>`.value,
+      '<a title="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;">&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;&amp;</a>'
+    );
+  });
+
+  it('keeps SafeHtml as it is and renders nothing for null, undefined and false', () => {
+    assert.equal(html`<p>${rawHtml('<b>bold</b>')}${null}${undefined}${false}${0}</p>`.value, '<p><b>bold</b>0</p>');
+  });
+});
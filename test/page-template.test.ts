@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { loadConfig, setConfig } from '../lib/config.js';
+import { renderHead, renderPage, type PageHead } from '../lib/page-template.js';
+import { episodeJsonLd } from '../lib/structured-data.js';
+import type { Episode } from '../lib/types.js';
+
+// Text that ends an attribute, opens a tag or closes a script when it is not escaped
+const HOSTILE = `"><script>alert('x')</script> & 'quoted' </script><!--`;
+const BASE_URL = 'https://example.com';
+
+const episode: Episode = {
+  id: 'ep-1',
+  title: `Title ${HOSTILE}`,
+  description: `Description ${HOSTILE}`,
+  coverImage: `/images/1.webp?"><script>`,
+  createdAt: '2025-01-01T00:00:00Z',
+  category: `Science ${HOSTILE}`,
+  host: `Host ${HOSTILE}`,
+  tags: [`tag ${HOSTILE}`],
+};
+
+const head: PageHead = {
+  title: `${episode.title} | Angle`,
+  shareTitle: episode.title,
+  description: episode.description!,
+  url: `${BASE_URL}/episode/${episode.id}?q="><script>`,
+  type: 'article',
+  image: { url: `${BASE_URL}/api/og-image/${episode.id}?v="><script>`, width: 1200, height: 630 },
+  feeds: [{ type: 'application/rss+xml', title: `Feed ${HOSTILE}`, href: `/feed.xml?"><script>&a=1` }],
+  oembedUrl: `${BASE_URL}/api/oembed?url="><script>&format=json`,
+  alternateLanguages: [{ hreflang: `en"><script>`, href: `${BASE_URL}/"><script>` }],
+  structuredData: episodeJsonLd(episode, BASE_URL),
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#039': "'" };
+
+function decodeHtml(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|#039);/g, (_, name: string) => ENTITIES[name]);
+}
+
+// Every tag outside the JSON-LD script, with its attributes decoded
+function parseTags(markup: string): { name: string; attributes: Record<string, string> }[] {
+  const outside = markup.replace(/<script type="application\/ld\+json"[^>]*>[\s\S]*?<\/script>/g, '');
+  return [...outside.matchAll(/<([a-z]+)((?:\s+[a-z:-]+="[^"]*")*)\s*>/g)].map(([, name, attributes]) => ({
+    name,
+    attributes: Object.fromEntries(
+      [...attributes.matchAll(/([a-z:-]+)="([^"]*)"/g)].map(([, key, value]) => [key, decodeHtml(value)])
+    ),
+  }));
+}
+
+function jsonLdBlocks(markup: string): string[] {
+  return [...markup.matchAll(/<script type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/g)].map(([, json]) => json);
+}
+
+describe('renderHead', () => {
+  const markup = renderHead(head).value;
+
+  it('emits no markup from the values it is given', () => {
+    assert.doesNotMatch(markup, /<script>|<!--[^ ]/);
+    // Every tag is one the head model writes: a title, metas, links and the JSON-LD script
+    const stripped = markup
+      .replace(/<title>[^<]*<\/title>/, '')
+      .replace(/<script type="application\/ld\+json" id="structured-data">[^<]*<\/script>/, '')
+      .replace(/<(meta|link)(\s+[a-z:-]+="[^"<>]*")+>/g, '')
+      .replace(/<!-- [A-Za-z /]+ -->/g, '');
+    assert.equal(stripped.trim(), '');
+  });
+
+  it('escapes the title', () => {
+    const [, title] = markup.match(/<title>([^<]*)<\/title>/)!;
+    assert.equal(decodeHtml(title), head.title);
+    assert.match(title, /&quot;&gt;&lt;script&gt;alert\(&#039;x&#039;\)&lt;\/script&gt; &amp; /);
+  });
+
+  it('keeps every meta and link value intact inside its attribute', () => {
+    const tags = parseTags(markup);
+    const meta = (key: string) => tags.find((tag) => tag.name === 'meta' && (tag.attributes.property ?? tag.attributes.name) === key)?.attributes.content;
+    const link = (rel: string, type?: string) =>
+      tags.find((tag) => tag.name === 'link' && tag.attributes.rel === rel && tag.attributes.type === type)?.attributes;
+
+    assert.equal(meta('description'), head.description);
+    assert.equal(meta('og:title'), head.shareTitle);
+    assert.equal(meta('og:description'), head.description);
+    assert.equal(meta('og:url'), head.url);
+    assert.equal(meta('og:image'), head.image.url);
+    assert.equal(meta('twitter:title'), head.shareTitle);
+    assert.equal(meta('twitter:description'), head.description);
+    assert.equal(meta('twitter:url'), head.url);
+    assert.equal(meta('twitter:image'), head.image.url);
+
+    assert.equal(link('canonical')?.href, head.url);
+    assert.deepEqual(link('alternate', 'application/json+oembed'), {
+      rel: 'alternate',
+      type: 'application/json+oembed',
+      title: head.shareTitle,
+      href: head.oembedUrl,
+    });
+    const feed = tags.find((tag) => tag.attributes.href === head.feeds![0].href);
+    assert.equal(feed?.attributes.title, head.feeds![0].title);
+    const language = tags.find((tag) => tag.attributes.hreflang !== undefined);
+    assert.deepEqual(language?.attributes, { rel: 'alternate', ...head.alternateLanguages![0] });
+  });
+
+  it('keeps the JSON-LD inside its script element', () => {
+    const blocks = jsonLdBlocks(markup);
+    assert.equal(blocks.length, 1);
+    assert.doesNotMatch(blocks[0], /</);
+    assert.deepEqual(JSON.parse(blocks[0]), head.structuredData);
+  });
+});
+
+describe('renderPage', () => {
+  before(() => {
+    setConfig(loadConfig({ DATA_SOURCE: 'fixture' }));
+  });
+
+  it('escapes the head and keeps the page data inside its script element', async () => {
+    const page = await renderPage(head, { data: { episode } });
+
+    assert.equal(page.match(/<title>/g)?.length, 1);
+    assert.equal(jsonLdBlocks(page).length, 1);
+    assert.doesNotMatch(page, /<script>alert/);
+
+    const [, json] = page.match(/<script type="application\/json" id="page-data">([\s\S]*?)<\/script>/)!;
+    assert.doesNotMatch(json, /</);
+    assert.deepEqual(JSON.parse(json), { episode });
+  });
+});
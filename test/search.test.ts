@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createFixtureDataSource } from '../lib/fixture.js';
+import { buildSearchIndex, searchEpisodes, type SearchIndex } from '../lib/search.js';
+import type { Episode } from '../lib/types.js';
+
+let episodes: Episode[];
+let index: SearchIndex;
+
+// Last two characters of each result's ID, in rank order
+function ids(q: string, options?: Parameters<typeof searchEpisodes>[2]): string[] {
+  return searchEpisodes(index, q, options).map((result) => result.episode.id.slice(-2));
+}
+
+describe('searchEpisodes', () => {
+  before(async () => {
+    episodes = await createFixtureDataSource('fixtures/episodes.json').listEpisodes();
+    index = buildSearchIndex(episodes);
+  });
+
+  it('ranks matches in heavier, shorter fields first', () => {
+    // The title, tags and description beat a single mention in a long description
+    assert.deepEqual(ids('train'), ['07', '02']);
+    assert.deepEqual(ids('sleep'), ['04', '07']);
+    // Tags plus description beat tags alone
+    assert.deepEqual(ids('logistics'), ['08', '03']);
+  });
+
+  it('breaks score ties newest first', () => {
+    const [first, second] = searchEpisodes(index, 'climate');
+    assert.equal(first.score, second.score);
+    assert.deepEqual(ids('climate'), ['07', '01']);
+  });
+
+  it('matches the last term as a prefix while it is being typed', () => {
+    assert.deepEqual(ids('tra').slice(0, 2), ['07', '02']);
+    // Earlier terms only match whole tokens
+    assert.deepEqual(ids('tra comeback'), ['07']);
+    // Plurals fold onto their singular
+    assert.deepEqual(ids('trains'), ids('train'));
+  });
+
+  it('filters by tag slug and by category name', () => {
+    assert.deepEqual(ids('technology'), ['06', '02', '05']);
+    assert.deepEqual(ids('technology', { tag: 'New York' }), ['05']);
+    assert.deepEqual(ids('technology', { tag: 'new-york' }), ['05']);
+    assert.deepEqual(ids('technology', { category: 'Culture' }), ['05']);
+    assert.deepEqual(ids('technology', { category: 'Health' }), []);
+  });
+
+  it('escapes highlights and snippets around the marked words', () => {
+    const hostile: Episode = {
+      ...episodes[0],
+      title: `<img src=x onerror="alert('geothermal')"> Geothermal & more`,
+      description: `Geothermal <script>alert(1)</script>`,
+      fullDescription: null,
+      transcript: null,
+    };
+    const [result] = searchEpisodes(buildSearchIndex([hostile]), 'geothermal');
+
+    assert.equal(
+      result.highlightedTitle,
+      '&lt;img src=x onerror=&quot;alert(&#039;<mark>geothermal</mark>&#039;)&quot;&gt; <mark>Geothermal</mark> &amp; more'
+    );
+    assert.equal(result.snippet, '<mark>Geothermal</mark> &lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+});